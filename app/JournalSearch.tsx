@@ -0,0 +1,196 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { type ReactNode, useEffect, useState } from 'react'
+import { apiFetch } from '@/lib/auth-context'
+import type { SearchSnippet } from '@/lib/journal-search'
+
+const DEBOUNCE_MS = 300
+
+interface SearchResult {
+  id: number
+  date: string
+  bottle: { id: number; name: string } | null
+  snippets: SearchSnippet[]
+}
+
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: ReactNode[] = []
+  let position = 0
+
+  for (const [start, end] of snippet.highlights) {
+    parts.push(snippet.text.slice(position, start))
+    parts.push(
+      <mark key={start} className="bg-[#ff006e] text-black">
+        {snippet.text.slice(start, end)}
+      </mark>,
+    )
+    position = end
+  }
+  parts.push(snippet.text.slice(position))
+
+  return (
+    <p className="text-xs sm:text-sm text-white/80 whitespace-pre-wrap leading-relaxed font-mono">
+      {parts}
+    </p>
+  )
+}
+
+/**
+ * Search box for the journal history
+ * Shows matching entries while a query is entered, otherwise renders its children (the full list)
+ */
+export function JournalSearch({ children }: { children: ReactNode }) {
+  const router = useRouter()
+  const [query, setQuery] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [linked, setLinked] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState('')
+
+  const active = query.trim().length > 0
+
+  useEffect(() => {
+    if (!active) {
+      setResults([])
+      setTotal(0)
+      setError('')
+      return
+    }
+
+    const params = new URLSearchParams({ q: query.trim() })
+    // Date inputs are local days; include the whole "to" day
+    if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString())
+    if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString())
+    if (linked) params.set('linked', linked)
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const res = await apiFetch(`/api/journal/search?${params}`, { signal: controller.signal })
+        const data = await res.json()
+
+        if (res.ok) {
+          setResults(data.results)
+          setTotal(data.total)
+          setError('')
+        } else {
+          setError(data.error || 'Search failed')
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Failed to search journals:', err)
+          setError('Search failed')
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setSearching(false)
+        }
+      }
+    }, DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [active, query, from, to, linked])
+
+  const inputClass =
+    'flex-1 px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono text-base'
+
+  return (
+    <>
+      <div className="space-y-3 mb-6">
+        <input
+          type="search"
+          aria-label="Search entries"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder='search... (use "quotes" for phrases)'
+          className={`w-full ${inputClass}`}
+        />
+        {active && (
+          <div className="flex flex-col sm:flex-row gap-3">
+            <label className="flex flex-1 items-center gap-2 text-xs sm:text-sm text-white/60 font-mono">
+              from
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-1 items-center gap-2 text-xs sm:text-sm text-white/60 font-mono">
+              to
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <select
+              aria-label="Filter by bottle"
+              value={linked}
+              onChange={(e) => setLinked(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">all entries</option>
+              <option value="true">linked to a bottle</option>
+              <option value="false">not linked</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      {!active ? (
+        children
+      ) : error ? (
+        <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+          {error}
+        </div>
+      ) : searching && results.length === 0 ? (
+        <p className="text-white/40 font-mono text-xs sm:text-sm">searching...</p>
+      ) : results.length === 0 ? (
+        <p className="text-white/40 font-mono text-xs sm:text-sm">no matches.</p>
+      ) : (
+        <div className="space-y-4 sm:space-y-6">
+          <p className="text-xs text-white/40 font-mono">
+            {total === results.length
+              ? `${total} matches`
+              : `showing ${results.length} of ${total} matches`}
+          </p>
+          {results.map((result) => (
+            <div key={result.id} className="border border-white/10 p-3 sm:p-4 bg-black/50">
+              <p className="text-xs text-white/40 font-mono mb-2 sm:mb-3">
+                {new Date(result.date).toLocaleDateString('en-US', {
+                  year: 'numeric',
+                  month: '2-digit',
+                  day: '2-digit',
+                })}
+              </p>
+              <div className="space-y-2 mb-2 sm:mb-3">
+                {result.snippets.map((snippet) => (
+                  <HighlightedSnippet key={snippet.text} snippet={snippet} />
+                ))}
+              </div>
+              {result.bottle && (
+                <button
+                  type="button"
+                  onClick={() => router.push(`/bottle/${result.bottle?.id}`)}
+                  className="text-xs text-[#ff006e] hover:text-[#ff0080] font-mono transition"
+                >
+                  {`> ${result.bottle.name}`}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,141 @@
+'use client'
+
+import { useState } from 'react'
+import { apiFetch } from '@/lib/auth-context'
+import { JOURNAL_IMAGE_TYPES, MAX_JOURNAL_IMAGES } from '@/lib/schemas'
+
+const THUMBNAIL_SIZE = 320 // Longest side in pixels
+
+export interface AttachedPhoto {
+  id: string
+  url: string
+}
+
+/**
+ * Scales an image down in the browser so the journal list can load a small preview
+ */
+async function createThumbnail(file: File): Promise<Blob | null> {
+  try {
+    const bitmap = await createImageBitmap(file)
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(bitmap.width * scale)
+    canvas.height = Math.round(bitmap.height * scale)
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    bitmap.close()
+
+    return await new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8))
+  } catch {
+    // Formats the browser can't decode (e.g. HEIC) are uploaded without a thumbnail
+    return null
+  }
+}
+
+/**
+ * Photo picker for a new entry
+ * Photos upload as soon as they're picked; removing one before submitting deletes it again
+ */
+export function PhotoAttachments({
+  photos,
+  onChange,
+}: {
+  photos: AttachedPhoto[]
+  onChange: (photos: AttachedPhoto[]) => void
+}) {
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleFiles = async (list: FileList | null) => {
+    const files = Array.from(list ?? []).slice(0, MAX_JOURNAL_IMAGES - photos.length)
+    if (files.length === 0) return
+
+    setUploading(true)
+    setError('')
+
+    const uploaded: AttachedPhoto[] = []
+    try {
+      for (const file of files) {
+        const formData = new FormData()
+        formData.append('file', file)
+
+        const thumbnail = await createThumbnail(file)
+        if (thumbnail) {
+          formData.append('thumbnail', thumbnail, 'thumbnail.jpg')
+        }
+
+        const res = await apiFetch('/api/journal/images', { method: 'POST', body: formData })
+        const data = await res.json()
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to upload photo')
+        }
+
+        uploaded.push({ id: data.id, url: data.url })
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload photo')
+    } finally {
+      onChange([...photos, ...uploaded])
+      setUploading(false)
+    }
+  }
+
+  const handleRemove = async (photo: AttachedPhoto) => {
+    onChange(photos.filter((p) => p.id !== photo.id))
+
+    try {
+      await apiFetch(`/api/journal/images?id=${photo.id}`, { method: 'DELETE' })
+    } catch (err) {
+      console.error('Failed to delete photo:', err)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {photos.map((photo) => (
+            <div key={photo.id} className="relative">
+              <img
+                src={`${photo.url}?size=thumb`}
+                alt=""
+                className="h-16 w-16 sm:h-20 sm:w-20 object-cover border border-white/20"
+              />
+              <button
+                type="button"
+                onClick={() => handleRemove(photo)}
+                aria-label="Remove photo"
+                className="absolute top-0 right-0 px-1 text-xs text-white bg-black/70 hover:text-[#ff006e] font-mono"
+              >
+                [x]
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {photos.length < MAX_JOURNAL_IMAGES && (
+        <label className="inline-block text-xs text-white/40 hover:text-[#ff006e] font-mono transition cursor-pointer">
+          {uploading ? '[uploading...]' : '[attach photos]'}
+          <input
+            type="file"
+            accept={JOURNAL_IMAGE_TYPES.join(',')}
+            multiple
+            disabled={uploading}
+            onChange={(e) => {
+              handleFiles(e.target.files)
+              e.target.value = ''
+            }}
+            className="hidden"
+          />
+        </label>
+      )}
+
+      {error && (
+        <div className="text-[#ff006e] text-xs font-mono border border-[#ff006e] px-3 py-2">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { decryptText } from '@/lib/encryption'
+import { usePrivateJournal } from '@/lib/private-journal-context'
+
+/**
+ * Passphrase field that unlocks private entries for this page
+ * Not a form of its own, so it can sit inside the entry form
+ */
+export function PrivateUnlock() {
+  const { unlock } = usePrivateJournal()
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+
+  const handleUnlock = async () => {
+    setError('')
+    setUnlocking(true)
+
+    try {
+      if (await unlock(passphrase)) {
+        setPassphrase('')
+      } else {
+        setError('wrong passphrase')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <input
+          type="password"
+          aria-label="Private mode passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleUnlock()
+            }
+          }}
+          className="flex-1 px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono text-xs sm:text-sm"
+          placeholder="private mode passphrase..."
+        />
+        <button
+          type="button"
+          onClick={handleUnlock}
+          disabled={unlocking || !passphrase}
+          className="text-xs text-[#ff006e] hover:text-[#ff0080] font-mono transition disabled:opacity-50 whitespace-nowrap"
+        >
+          {unlocking ? '[unlocking...]' : '[unlock]'}
+        </button>
+      </div>
+      {error && (
+        <div className="text-[#ff006e] text-xs font-mono border border-[#ff006e] px-3 py-2">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * A private entry's prompt and text, decrypted in the browser
+ */
+export function PrivateEntryText({ entry, prompt }: { entry: string; prompt: string | null }) {
+  const { key } = usePrivateJournal()
+  const [text, setText] = useState<{ entry: string; prompt: string | null } | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    setText(null)
+    setFailed(false)
+    if (!key) return
+
+    let cancelled = false
+    Promise.all([decryptText(entry, key), prompt ? decryptText(prompt, key) : null])
+      .then(([entryText, promptText]) => {
+        if (!cancelled) setText({ entry: entryText, prompt: promptText })
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [entry, prompt, key])
+
+  if (!key || failed || !text) {
+    return (
+      <p className="text-xs sm:text-sm text-white/40 font-mono">
+        {!key
+          ? 'locked. unlock private mode to read this entry.'
+          : failed
+            ? 'this entry could not be decrypted.'
+            : 'decrypting...'}
+      </p>
+    )
+  }
+
+  return (
+    <>
+      {text.prompt && (
+        <p className="text-xs text-white/40 font-mono mb-1 sm:mb-2">{`> ${text.prompt}`}</p>
+      )}
+      <p className="text-xs sm:text-sm text-white/80 whitespace-pre-wrap leading-relaxed font-mono">
+        {text.entry}
+      </p>
+    </>
+  )
+}
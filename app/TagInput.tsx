@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import { MAX_JOURNAL_TAGS } from '@/lib/schemas'
+
+const MAX_SUGGESTIONS = 5
+
+/**
+ * Tag picker for an entry
+ * Enter or a comma adds the typed tag; matching existing tags are suggested while typing
+ */
+export function TagInput({
+  value,
+  onChange,
+  suggestions,
+}: {
+  value: string[]
+  onChange: (tags: string[]) => void
+  suggestions: string[] // Names of the user's existing tags
+}) {
+  const [text, setText] = useState('')
+
+  const has = (tag: string) => value.some((t) => t.toLowerCase() === tag.toLowerCase())
+
+  const add = (tag: string) => {
+    const name = tag.trim()
+    if (name && !has(name) && value.length < MAX_JOURNAL_TAGS) {
+      onChange([...value, name])
+    }
+    setText('')
+  }
+
+  const query = text.trim().toLowerCase()
+  const matches = query
+    ? suggestions
+        .filter((tag) => tag.toLowerCase().includes(query) && !has(tag))
+        .sort(
+          (a, b) =>
+            Number(!a.toLowerCase().startsWith(query)) - Number(!b.toLowerCase().startsWith(query)),
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs text-white/80 border border-white/20 font-mono"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((t) => t !== tag))}
+              aria-label={`Remove tag ${tag}`}
+              className="text-white/40 hover:text-[#ff006e] transition"
+            >
+              [x]
+            </button>
+          </span>
+        ))}
+        {value.length < MAX_JOURNAL_TAGS && (
+          <input
+            type="text"
+            aria-label="Add tag"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault()
+                add(text)
+              } else if (e.key === 'Backspace' && !text && value.length > 0) {
+                onChange(value.slice(0, -1))
+              }
+            }}
+            onBlur={() => add(text)}
+            maxLength={40}
+            className="flex-1 min-w-24 px-2 py-0.5 bg-black focus:outline-none text-white placeholder-white/30 font-mono text-xs"
+            placeholder="add tags..."
+          />
+        )}
+      </div>
+
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {matches.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              // Keep focus in the input so its blur doesn't add the half-typed text first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => add(tag)}
+              className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+            >
+              {`+ #${tag}`}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
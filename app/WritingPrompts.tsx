@@ -0,0 +1,81 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { apiFetch } from '@/lib/auth-context'
+
+/**
+ * Suggested prompts for a new entry
+ * Picking one shows it above the editor and saves it with the entry; shuffle asks for new ones
+ */
+export function WritingPrompts({
+  selected,
+  onSelect,
+}: {
+  selected: string | null
+  onSelect: (prompt: string | null) => void
+}) {
+  const [prompts, setPrompts] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchPrompts = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await apiFetch('/api/journal/prompts')
+      if (res.ok) {
+        const data = await res.json()
+        setPrompts(data.prompts)
+      }
+    } catch (err) {
+      console.error('Failed to fetch prompts:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPrompts()
+  }, [fetchPrompts])
+
+  if (selected) {
+    return (
+      <div className="flex items-start justify-between gap-3 border-l-2 border-[#ff006e] pl-3">
+        <p className="text-xs sm:text-sm text-white/80 font-mono">{selected}</p>
+        <button
+          type="button"
+          onClick={() => onSelect(null)}
+          aria-label="Remove prompt"
+          className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+        >
+          [x]
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {loading ? (
+        <p className="text-xs text-white/40 font-mono">finding prompts...</p>
+      ) : (
+        prompts.map((prompt) => (
+          <button
+            key={prompt}
+            type="button"
+            onClick={() => onSelect(prompt)}
+            className="block w-full text-left text-xs sm:text-sm text-white/60 hover:text-[#ff006e] font-mono transition"
+          >
+            {`> ${prompt}`}
+          </button>
+        ))
+      )}
+      <button
+        type="button"
+        onClick={fetchPrompts}
+        disabled={loading}
+        className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition disabled:opacity-50"
+      >
+        [shuffle]
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import { AUDIT_ACTIONS, type AuditAction } from '@/lib/schemas'
+import { api } from '@/lib/trpc/client'
+
+const PAGE_SIZE = 50
+
+/**
+ * Admin section for browsing the security audit log
+ */
+export function AuditLog({ users }: { users: { id: number; email: string }[] }) {
+  const [actorId, setActorId] = useState('')
+  const [action, setAction] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    api.audit.list.useInfiniteQuery(
+      {
+        actorId: actorId ? Number(actorId) : undefined,
+        action: (action || undefined) as AuditAction | undefined,
+        // Date inputs are local days; include the whole "to" day
+        from: from ? new Date(`${from}T00:00:00`) : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+        limit: PAGE_SIZE,
+      },
+      {
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+      },
+    )
+
+  const events = data?.pages.flatMap((page) => page.events) || []
+
+  const inputClass =
+    'flex-1 px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white font-mono text-base'
+
+  return (
+    <div className="mb-8 sm:mb-12">
+      <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-8">{`> AUDIT_LOG`}</h2>
+
+      <div className="space-y-3 sm:space-y-4 mb-6">
+        <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+          <select
+            aria-label="Filter by user"
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">all users</option>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.email}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Filter by action"
+            value={action}
+            onChange={(e) => setAction(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">all actions</option>
+            {AUDIT_ACTIONS.map((a) => (
+              <option key={a} value={a}>
+                {a}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+          <label className="flex flex-1 items-center gap-2 text-xs sm:text-sm text-white/60 font-mono">
+            from
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-1 items-center gap-2 text-xs sm:text-sm text-white/60 font-mono">
+            to
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2 mb-4">
+          {error.message}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-white/40 font-mono text-xs sm:text-sm">loading...</p>
+      ) : events.length === 0 ? (
+        <p className="text-white/40 font-mono text-xs sm:text-sm">no events.</p>
+      ) : (
+        <ul className="space-y-2">
+          {events.map((event) => (
+            <li
+              key={event.id}
+              className="border border-white/10 p-3 text-xs font-mono space-y-1 break-all"
+            >
+              <p className="text-white/80">
+                {event.action}
+                {event.targetType && (
+                  <span className="text-white/40">
+                    {' '}
+                    / {event.targetType} {event.targetId}
+                  </span>
+                )}
+              </p>
+              <p className="text-white/40">
+                {event.actor?.email ?? (event.actorId ? 'deleted user' : 'anonymous')} /{' '}
+                {new Date(event.createdAt).toLocaleString('en-US')}
+                {event.ipAddress && ` / ${event.ipAddress}`}
+              </p>
+              {event.metadata && <p className="text-white/30">{JSON.stringify(event.metadata)}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasNextPage && (
+        <button
+          type="button"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="w-full mt-4 py-2 text-xs sm:text-sm text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition disabled:opacity-50 font-mono"
+        >
+          {isFetchingNextPage ? 'LOADING...' : 'LOAD MORE'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react'
+import { api } from '@/lib/trpc/client'
+
+/**
+ * Admin section for minting and revoking registration invites
+ */
+export function InviteManager() {
+  const utils = api.useUtils()
+  const { data, isLoading } = api.invites.list.useQuery()
+
+  const [email, setEmail] = useState('')
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [expiresInDays, setExpiresInDays] = useState('')
+  const [message, setMessage] = useState('')
+
+  const createInvite = api.invites.create.useMutation({
+    onSuccess: () => {
+      setEmail('')
+      setIsAdmin(false)
+      setExpiresInDays('')
+      utils.invites.list.invalidate()
+    },
+    onError: (error) => {
+      setMessage(error.message)
+    },
+  })
+
+  const revokeInvite = api.invites.revoke.useMutation({
+    onSuccess: () => {
+      utils.invites.list.invalidate()
+    },
+    onError: (error) => {
+      setMessage(error.message)
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage('')
+    createInvite.mutate({
+      email: email.trim() || undefined,
+      isAdmin,
+      expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+    })
+  }
+
+  const inviteLink = (code: string) =>
+    typeof window !== 'undefined' ? `${window.location.origin}/login?invite=${code}` : code
+
+  const invites = data?.invites || []
+
+  return (
+    <div className="mb-8 sm:mb-12">
+      <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-8">{`> INVITES`}</h2>
+
+      <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4 mb-6">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono text-base"
+          placeholder="bind to email (optional)..."
+        />
+        <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+          <input
+            type="number"
+            min={1}
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            className="flex-1 px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono text-base"
+            placeholder="expires in days (optional)..."
+          />
+          <label className="flex items-center gap-2 text-xs sm:text-sm text-white/60 font-mono">
+            <input
+              type="checkbox"
+              checked={isAdmin}
+              onChange={(e) => setIsAdmin(e.target.checked)}
+              className="accent-[#ff006e]"
+            />
+            admin
+          </label>
+        </div>
+
+        {message && (
+          <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+            {message}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={createInvite.isPending}
+          className="w-full py-2 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+        >
+          {createInvite.isPending ? 'CREATING...' : 'CREATE INVITE'}
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-white/40 font-mono text-xs sm:text-sm">loading...</p>
+      ) : invites.length === 0 ? (
+        <p className="text-white/40 font-mono text-xs sm:text-sm">no invites yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {invites.map((invite) => {
+            const expired = !!invite.expiresAt && new Date(invite.expiresAt) < new Date()
+            return (
+              <li
+                key={invite.id}
+                className="border border-white/10 p-3 text-xs font-mono flex flex-col sm:flex-row sm:justify-between gap-2"
+              >
+                <div className="space-y-1 break-all">
+                  <p className="text-white/80">{inviteLink(invite.code)}</p>
+                  <p className="text-white/40">
+                    {invite.email || 'any email'} / {invite.isAdmin ? 'admin' : 'viewer'}
+                    {invite.expiresAt &&
+                      ` / expires ${new Date(invite.expiresAt).toLocaleDateString('en-US', {
+                        month: '2-digit',
+                        day: '2-digit',
+                      })}`}
+                  </p>
+                  <p className="text-white/40">
+                    {invite.usedAt
+                      ? `used by ${invite.usedBy?.email ?? 'deleted user'}`
+                      : expired
+                        ? 'expired'
+                        : 'unused'}
+                  </p>
+                </div>
+                {!invite.usedAt && (
+                  <button
+                    type="button"
+                    onClick={() => revokeInvite.mutate({ id: invite.id })}
+                    className="text-white/40 hover:text-[#ff006e] self-start"
+                  >
+                    [revoke]
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
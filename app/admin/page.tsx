@@ -2,9 +2,11 @@
 
 import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
-import { useAuth } from '@/lib/auth-context'
+import { apiFetch, useAuth } from '@/lib/auth-context'
 import type { BottleBlock } from '@/lib/types'
 import { api } from '@/lib/trpc/client'
+import { AuditLog } from './AuditLog'
+import { InviteManager } from './InviteManager'
 
 export default function AdminPage() {
   const { user, isLoading } = useAuth()
@@ -83,9 +85,8 @@ export default function AdminPage() {
       const formData = new FormData()
       formData.append('file', file)
 
-      const res = await fetch('/api/upload', {
+      const res = await apiFetch('/api/upload', {
         method: 'POST',
-        credentials: 'include',
         body: formData,
       })
 
@@ -145,10 +146,9 @@ export default function AdminPage() {
       for (const block of imageBlocks) {
         const imageId = (block as any).imageId
         try {
-          await fetch(`/api/images/${imageId}/grant-access`, {
+          await apiFetch(`/api/images/${imageId}/grant-access`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            credentials: 'include',
             body: JSON.stringify({ userId: assignedViewerId }),
           })
         } catch (err) {
@@ -412,6 +412,12 @@ export default function AdminPage() {
           </form>
         </div>
 
+        {/* Registration Invites */}
+        <InviteManager />
+
+        {/* Security Audit Log */}
+        <AuditLog users={users} />
+
         {/* All Bottles List */}
         <div>
           <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-8">{`> ALL_BOTTLES`}</h2>
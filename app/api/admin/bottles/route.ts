@@ -3,6 +3,8 @@ import { type NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import type { BottleContent } from '@/lib/types'
 import { withAuth } from '@/lib/middleware'
+import { recordAuditEvent } from '@/lib/audit'
+import { getRequestMeta } from '@/lib/sessions'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 
@@ -96,6 +98,14 @@ export async function POST(request: NextRequest) {
         },
       })
 
+      await recordAuditEvent({
+        action: 'bottle.created',
+        actorId: user.id,
+        target: { type: 'bottle', id: bottle.id },
+        metadata: { assignedViewerId },
+        meta: getRequestMeta(request.headers),
+      })
+
       return NextResponse.json({ bottle }, { status: 201 })
     } catch (error) {
       console.error('Error creating bottle:', error)
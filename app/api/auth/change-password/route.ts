@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { changePassword } from '@/lib/account'
+import { recordAuditEvent } from '@/lib/audit'
+import { withValidatedAuth } from '@/lib/middleware'
+import { changePasswordSchema } from '@/lib/schemas'
+import { getRequestMeta, revokeAllSessions, setAuthCookies } from '@/lib/sessions'
+
+// Change password and re-wrap the journal data key under it
+export async function POST(request: NextRequest) {
+  return withValidatedAuth(request, changePasswordSchema, async (req, user, data) => {
+    try {
+      const result = await changePassword(user.id, data.currentPassword, data.newPassword)
+
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 })
+      }
+
+      // Keep this device signed in and log out every other one
+      await revokeAllSessions(user.id, user.sessionId)
+
+      const response = NextResponse.json({ success: true })
+
+      // Reissue cookies for the new credentials
+      setAuthCookies(response.headers, result.user, {
+        sessionId: user.sessionId,
+        twoFactor: user.twoFactor,
+        encryptionKey: result.encryptionKey,
+      })
+
+      await recordAuditEvent({
+        action: 'auth.password_changed',
+        actorId: user.id,
+        meta: getRequestMeta(req.headers),
+      })
+
+      return response
+    } catch (error) {
+      console.error('Change password error:', error)
+      return NextResponse.json({ error: 'Failed to change password' }, { status: 500 })
+    }
+  })
+}
@@ -1,54 +1,103 @@
 import { type NextRequest, NextResponse } from 'next/server'
 import { withValidation } from '@/lib/middleware'
-import { generateToken, verifyPassword } from '@/lib/auth'
-import { deriveEncryptionKey } from '@/lib/encryption-server'
+import { verifyPassword } from '@/lib/auth'
+import { unlockDataKey } from '@/lib/account'
+import { recordAuditEvent } from '@/lib/audit'
+import {
+  claimLoginAttempt,
+  clearLoginFailures,
+  LOGIN_LOCKED_CODE,
+  refundLoginAttempt,
+} from '@/lib/login-throttle'
 import { prisma } from '@/lib/prisma'
 import { loginSchema } from '@/lib/schemas'
+import { getRequestMeta, startSession } from '@/lib/sessions'
+import {
+  effectiveIsAdmin,
+  isAdminTwoFactorRequired,
+  TWO_FACTOR_REQUIRED_CODE,
+  verifyLoginSecondFactor,
+} from '@/lib/two-factor'
 
 export async function POST(request: NextRequest) {
-  return withValidation(request, loginSchema, async (_req, data) => {
+  return withValidation(request, loginSchema, async (req, data) => {
     try {
+      const meta = getRequestMeta(req.headers)
+
+      // Refuse early while the account or IP is locked out; otherwise this attempt counts
+      // as a failure until it succeeds
+      const throttle = await claimLoginAttempt(data.email, meta.ipAddress)
+
+      if (!throttle.allowed) {
+        return NextResponse.json(
+          {
+            error: `Too many failed attempts. Try again in ${throttle.retryAfterSeconds} seconds`,
+            code: LOGIN_LOCKED_CODE,
+            retryAfter: throttle.retryAfterSeconds,
+          },
+          { status: 429, headers: { 'Retry-After': String(throttle.retryAfterSeconds) } },
+        )
+      }
+
       // Get the user by email
       const user = await prisma.user.findUnique({
         where: { email: data.email },
       })
 
-      if (!user) {
+      // Verify password
+      const isValid = user ? await verifyPassword(data.password, user.passwordHash) : false
+
+      if (!user || !isValid) {
+        await recordAuditEvent({
+          action: 'auth.login_failed',
+          actorId: user?.id ?? null,
+          metadata: { email: data.email, reason: 'password' },
+          meta,
+        })
         return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 })
       }
 
-      // Verify password
-      const isValid = await verifyPassword(data.password, user.passwordHash)
+      // Second step for accounts with two-factor authentication
+      const secondFactor = await verifyLoginSecondFactor(user, data.twoFactorCode)
 
-      if (!isValid) {
-        return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 })
+      if (!secondFactor.success) {
+        if (secondFactor.required) {
+          await refundLoginAttempt(data.email, meta.ipAddress)
+          return NextResponse.json(
+            { error: secondFactor.error, code: TWO_FACTOR_REQUIRED_CODE },
+            { status: 401 },
+          )
+        }
+        await recordAuditEvent({
+          action: 'auth.login_failed',
+          actorId: user.id,
+          metadata: { email: data.email, reason: 'two_factor' },
+          meta,
+        })
+        return NextResponse.json({ error: secondFactor.error }, { status: 401 })
       }
 
-      // Generate JWT token and encryption key
-      const token = generateToken(user.id, user.email, user.isAdmin)
-      const encryptionKey = deriveEncryptionKey(data.password)
+      await clearLoginFailures(data.email, meta.ipAddress)
+
+      // Unwrap the journal data key and start a session
+      const twoFactor = !!user.totpEnabledAt
+      const encryptionKey = await unlockDataKey(user, data.password)
 
       const response = NextResponse.json({
-        isAdmin: user.isAdmin,
+        isAdmin: effectiveIsAdmin(user.isAdmin, twoFactor),
         email: user.email,
+        // Admins must enable 2FA before they get admin access back
+        twoFactorSetupRequired: user.isAdmin && !twoFactor && isAdminTwoFactorRequired(),
       })
 
-      // Set auth token cookie (HTTP-only for security)
-      response.cookies.set('token', token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 30, // 30 days
-        path: '/',
-      })
+      // Set HTTP-only token and encryption key cookies
+      await startSession(response.headers, user, meta, { encryptionKey, twoFactor })
 
-      // Set encryption key cookie (HTTP-only for security)
-      response.cookies.set('encryptionKey', encryptionKey, {
-        httpOnly: true, // Server-side decryption only
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 30, // 30 days
-        path: '/',
+      await recordAuditEvent({
+        action: 'auth.login',
+        actorId: user.id,
+        metadata: { twoFactor },
+        meta,
       })
 
       return response
@@ -1,25 +1,41 @@
-import { NextResponse } from 'next/server'
+import { type NextRequest, NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit'
+import { verifyToken } from '@/lib/auth'
+import { CSRF_COOKIE, CSRF_FAILED_CODE, checkCsrf } from '@/lib/csrf'
+import { clearAuthCookies, getRequestMeta, revokeSession } from '@/lib/sessions'
+
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get('token')?.value
+
+  // Another site must not be able to sign the user out; a signed-in page has the CSRF token
+  const csrfCookie = request.cookies.get(CSRF_COOKIE)?.value
+  const requireToken = !!token
+  const csrfError = checkCsrf(request.method, request.headers, csrfCookie, { requireToken })
+
+  if (csrfError) {
+    return NextResponse.json({ error: csrfError, code: CSRF_FAILED_CODE }, { status: 403 })
+  }
+
+  // Revoke the server-side session so the token can't be reused
+  const payload = token ? verifyToken(token) : null
+
+  if (payload?.sessionId) {
+    try {
+      await revokeSession(payload.userId, payload.sessionId)
+      await recordAuditEvent({
+        action: 'auth.logout',
+        actorId: payload.userId,
+        meta: getRequestMeta(request.headers),
+      })
+    } catch (error) {
+      console.error('Session revoke error:', error)
+    }
+  }
 
-export async function POST() {
   const response = NextResponse.json({ success: true })
 
-  // Clear the token cookie
-  response.cookies.set('token', '', {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 0, // Expire immediately
-    path: '/',
-  })
-
-  // Clear the encryption key cookie
-  response.cookies.set('encryptionKey', '', {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 0, // Expire immediately
-    path: '/',
-  })
+  // Clear the token and encryption key cookies
+  clearAuthCookies(response.headers)
 
   return response
 }
@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit'
+import {
+  claimLoginAttempt,
+  clearLoginFailures,
+  LOGIN_LOCKED_CODE,
+  refundLoginAttempt,
+} from '@/lib/login-throttle'
+import { withValidation } from '@/lib/middleware'
+import { recoverAccount } from '@/lib/recovery'
+import { recoverAccountSchema } from '@/lib/schemas'
+import { getRequestMeta, revokeAllSessions, startSession } from '@/lib/sessions'
+import { effectiveIsAdmin, TWO_FACTOR_REQUIRED_CODE } from '@/lib/two-factor'
+
+// Reset a forgotten password with a one-time recovery code
+export async function POST(request: NextRequest) {
+  return withValidation(request, recoverAccountSchema, async (req, data) => {
+    try {
+      const meta = getRequestMeta(req.headers)
+
+      // Wrong recovery or two-factor codes count towards the login lockout
+      const throttle = await claimLoginAttempt(data.email, meta.ipAddress)
+
+      if (!throttle.allowed) {
+        return NextResponse.json(
+          {
+            error: `Too many failed attempts. Try again in ${throttle.retryAfterSeconds} seconds`,
+            code: LOGIN_LOCKED_CODE,
+            retryAfter: throttle.retryAfterSeconds,
+          },
+          { status: 429, headers: { 'Retry-After': String(throttle.retryAfterSeconds) } },
+        )
+      }
+
+      const result = await recoverAccount(
+        data.email,
+        data.recoveryCode,
+        data.newPassword,
+        data.twoFactorCode,
+      )
+
+      if (!result.success) {
+        if (result.twoFactorRequired) {
+          await refundLoginAttempt(data.email, meta.ipAddress)
+          return NextResponse.json(
+            { error: result.error, code: TWO_FACTOR_REQUIRED_CODE },
+            { status: 401 },
+          )
+        }
+        return NextResponse.json({ error: result.error }, { status: 401 })
+      }
+
+      await clearLoginFailures(data.email, meta.ipAddress)
+
+      // Whoever had the old password may still be signed in somewhere
+      await revokeAllSessions(result.user.id)
+
+      const response = NextResponse.json({
+        isAdmin: effectiveIsAdmin(result.user.isAdmin, result.twoFactor),
+        email: result.user.email,
+      })
+
+      // Start a new session and set HTTP-only token and encryption key cookies
+      await startSession(response.headers, result.user, meta, {
+        encryptionKey: result.encryptionKey,
+        twoFactor: result.twoFactor,
+      })
+
+      await recordAuditEvent({ action: 'auth.account_recovered', actorId: result.user.id, meta })
+
+      return response
+    } catch (error) {
+      console.error('Recovery error:', error)
+      return NextResponse.json({ error: 'Failed to recover account' }, { status: 500 })
+    }
+  })
+}
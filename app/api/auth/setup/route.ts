@@ -1,58 +1,40 @@
 import { type NextRequest, NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit'
 import { withValidation } from '@/lib/middleware'
-import { hashPassword, generateToken } from '@/lib/auth'
-import { deriveEncryptionKey } from '@/lib/encryption-server'
 import { prisma } from '@/lib/prisma'
+import { registerUser } from '@/lib/registration'
 import { setupSchema } from '@/lib/schemas'
+import { getRequestMeta, startSession } from '@/lib/sessions'
+import { effectiveIsAdmin } from '@/lib/two-factor'
 
 export async function POST(request: NextRequest) {
-  return withValidation(request, setupSchema, async (_req, data) => {
+  return withValidation(request, setupSchema, async (req, data) => {
     try {
-      // Check if user with this email already exists
-      const existingUser = await prisma.user.findUnique({
-        where: { email: data.email },
-      })
+      // Create the account (invite required unless this is the first user)
+      const result = await registerUser(data)
 
-      if (existingUser) {
-        return NextResponse.json({ error: 'Email already registered' }, { status: 400 })
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 })
       }
 
-      // Create the user with hashed password
-      const passwordHash = await hashPassword(data.password)
-      const user = await prisma.user.create({
-        data: {
-          email: data.email,
-          passwordHash,
-          isAdmin: false, // You'll manually set this to true in database for your account
-        },
-      })
-
-      // Generate JWT token and encryption key
-      const token = generateToken(user.id, user.email, user.isAdmin)
-      const encryptionKey = deriveEncryptionKey(data.password)
+      const { user, recoveryCodes } = result
 
       const response = NextResponse.json({
         success: true,
-        isAdmin: user.isAdmin,
+        isAdmin: effectiveIsAdmin(user.isAdmin, false),
         email: user.email,
+        recoveryCodes,
       })
 
-      // Set auth token cookie (HTTP-only for security)
-      response.cookies.set('token', token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 30, // 30 days
-        path: '/',
-      })
+      // Start a session and set HTTP-only token and encryption key cookies
+      const meta = getRequestMeta(req.headers)
+      await startSession(response.headers, user, meta, { encryptionKey: result.dataKey })
 
-      // Set encryption key cookie (HTTP-only for security)
-      response.cookies.set('encryptionKey', encryptionKey, {
-        httpOnly: true, // Server-side decryption only
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 30, // 30 days
-        path: '/',
+      await recordAuditEvent({
+        action: 'auth.register',
+        actorId: user.id,
+        metadata: { isAdmin: user.isAdmin },
+        meta,
       })
 
       return response
@@ -1,10 +1,13 @@
 import { type NextRequest, NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit'
+import { getUserDailyWindow } from '@/lib/daily-window'
 import { withValidatedAuth } from '@/lib/middleware'
 import { prisma } from '@/lib/prisma'
 import { openBottleSchema } from '@/lib/schemas'
+import { getRequestMeta } from '@/lib/sessions'
 
 export async function POST(request: NextRequest) {
-  return withValidatedAuth(request, openBottleSchema, async (_req, user, data) => {
+  return withValidatedAuth(request, openBottleSchema, async (req, user, data) => {
     try {
       // Check if bottle exists
       const bottle = await prisma.bottle.findUnique({
@@ -39,18 +42,15 @@ export async function POST(request: NextRequest) {
 
       // Only enforce daily limit for non-admin users
       if (!user.isAdmin) {
-        // Check if user has already opened a bottle today
-        const today = new Date()
-        today.setHours(0, 0, 0, 0)
-        const tomorrow = new Date(today)
-        tomorrow.setDate(tomorrow.getDate() + 1)
+        // Check if user has already opened a bottle today (in their own time zone)
+        const today = await getUserDailyWindow(user.id)
 
         const openedToday = await prisma.bottleOpen.findFirst({
           where: {
             userId: user.id,
             openedAt: {
-              gte: today,
-              lt: tomorrow,
+              gte: today.start,
+              lt: today.end,
             },
           },
         })
@@ -84,6 +84,14 @@ export async function POST(request: NextRequest) {
         return { bottleOpen, journalEntry }
       })
 
+      await recordAuditEvent({
+        action: 'bottle.opened',
+        actorId: user.id,
+        target: { type: 'bottle', id: bottle.id },
+        metadata: { journalId: result.journalEntry.id },
+        meta: getRequestMeta(req.headers),
+      })
+
       // Return bottle content
       return NextResponse.json({
         id: bottle.id,
@@ -1,8 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit'
 import { withAuth, withValidatedAuth } from '@/lib/middleware'
 import { prisma } from '@/lib/prisma'
 import { createBottleSchema } from '@/lib/schemas'
 import { generateMoodAndEmbedding } from '@/lib/openai'
+import { getRequestMeta } from '@/lib/sessions'
 
 // Get bottles (admin: all bottles with opens, user: assigned unopened bottles only)
 export async function GET(request: NextRequest) {
@@ -78,7 +80,7 @@ export async function GET(request: NextRequest) {
 
 // Create a new bottle (admin only)
 export async function POST(request: NextRequest) {
-  return withValidatedAuth(request, createBottleSchema, async (_req, user, data) => {
+  return withValidatedAuth(request, createBottleSchema, async (req, user, data) => {
     if (!user.isAdmin) {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
     }
@@ -115,6 +117,14 @@ export async function POST(request: NextRequest) {
         WHERE id = ${bottle.id}
       `
 
+      await recordAuditEvent({
+        action: 'bottle.created',
+        actorId: user.id,
+        target: { type: 'bottle', id: bottle.id },
+        metadata: { assignedViewerId: bottle.assignedViewerId },
+        meta: getRequestMeta(req.headers),
+      })
+
       return NextResponse.json({
         id: bottle.id,
         name: bottle.name,
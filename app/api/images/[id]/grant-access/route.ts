@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withAuth } from '@/lib/middleware'
 import { grantImageAccess, type GrantAccessOptions } from '@/lib/image-access'
+import { recordAuditEvent } from '@/lib/audit'
+import { getRequestMeta } from '@/lib/sessions'
 import { z } from 'zod'
 
 const grantAccessSchema = z.object({
@@ -52,6 +54,18 @@ export async function POST(
       // Grant access
       const access = await grantImageAccess(imageId, validatedData.userId, options)
 
+      await recordAuditEvent({
+        action: 'image.access_granted',
+        actorId: user.id,
+        target: { type: 'image', id: imageId },
+        metadata: {
+          userId: validatedData.userId,
+          maxViews: access.maxViews,
+          expiresAt: access.expiresAt?.toISOString() ?? null,
+        },
+        meta: getRequestMeta(req.headers),
+      })
+
       return NextResponse.json({
         success: true,
         access: {
@@ -4,6 +4,20 @@ import { checkImageAccess, incrementAccessCount } from '@/lib/image-access'
 import { downloadFromR2 } from '@/lib/r2'
 import { prisma } from '@/lib/prisma'
 
+/**
+ * Content-Disposition for a user-supplied filename
+ * Headers only take Latin-1 and a quote or line break would end the value, so filename= gets
+ * a plain ASCII copy and filename* the real name (RFC 5987)
+ */
+function inlineDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_') || 'image'
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  )
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -34,8 +48,12 @@ export async function GET(
       // Increment access count
       await incrementAccessCount(imageId, user.id)
 
+      // ?size=thumb serves the small preview when the image has one
+      const thumbnailKey =
+        req.nextUrl.searchParams.get('size') === 'thumb' ? image.thumbnailKey : null
+
       // Download image from R2
-      const { stream, contentType } = await downloadFromR2(image.storageKey)
+      const { stream, contentType } = await downloadFromR2(thumbnailKey || image.storageKey)
 
       // Convert AWS SDK stream to buffer
       // The stream is a Node.js Readable, not a Web ReadableStream
@@ -63,7 +81,8 @@ export async function GET(
           'Content-Type': contentType || image.contentType,
           'Content-Length': buffer.length.toString(),
           'Cache-Control': 'private, max-age=3600', // Cache for 1 hour
-          'Content-Disposition': `inline; filename="${image.filename}"`,
+          'Content-Disposition': inlineDisposition(image.filename),
+          'X-Content-Type-Options': 'nosniff', // Never render as anything but the stored type
         },
       })
     } catch (error) {
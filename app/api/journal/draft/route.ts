@@ -0,0 +1,102 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { decryptTextServer, encryptTextServer } from '@/lib/encryption-server-crypto'
+import { withAuth, withValidatedAuth } from '@/lib/middleware'
+import { prisma } from '@/lib/prisma'
+import { saveJournalDraftSchema } from '@/lib/schemas'
+
+/**
+ * Get the user's unsubmitted draft, if any
+ * GET /api/journal/draft
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req, user) => {
+    try {
+      // Get encryption key from cookie
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json(
+          { error: 'Encryption key not found. Please log in again.' },
+          { status: 401 },
+        )
+      }
+
+      const draft = await prisma.journalDraft.findUnique({
+        where: { userId: user.id },
+      })
+
+      if (!draft) {
+        return NextResponse.json({ draft: null })
+      }
+
+      try {
+        return NextResponse.json({
+          draft: {
+            entry: decryptTextServer(draft.content, encryptionKey),
+            updatedAt: draft.updatedAt,
+          },
+        })
+      } catch (error) {
+        // Drafts are disposable; don't block writing over an unreadable one
+        console.error('Failed to decrypt journal draft:', error)
+        return NextResponse.json({ draft: null })
+      }
+    } catch (error) {
+      console.error('Journal draft fetch error:', error)
+      return NextResponse.json({ error: 'Failed to fetch draft' }, { status: 500 })
+    }
+  })
+}
+
+/**
+ * Autosave the draft (an empty entry discards it)
+ * PUT /api/journal/draft
+ *
+ * Body: { entry: string }
+ */
+export async function PUT(request: NextRequest) {
+  return withValidatedAuth(request, saveJournalDraftSchema, async (req, user, data) => {
+    try {
+      // Get encryption key from cookie
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json(
+          { error: 'Encryption key not found. Please log in again.' },
+          { status: 401 },
+        )
+      }
+
+      if (!data.entry.trim()) {
+        await prisma.journalDraft.deleteMany({ where: { userId: user.id } })
+        return NextResponse.json({ updatedAt: null })
+      }
+
+      const content = encryptTextServer(data.entry, encryptionKey)
+      const draft = await prisma.journalDraft.upsert({
+        where: { userId: user.id },
+        create: { userId: user.id, content },
+        update: { content },
+      })
+
+      return NextResponse.json({ updatedAt: draft.updatedAt })
+    } catch (error) {
+      console.error('Journal draft save error:', error)
+      return NextResponse.json({ error: 'Failed to save draft' }, { status: 500 })
+    }
+  })
+}
+
+/**
+ * Discard the draft
+ * DELETE /api/journal/draft
+ */
+export async function DELETE(request: NextRequest) {
+  return withAuth(request, async (_req, user) => {
+    try {
+      await prisma.journalDraft.deleteMany({ where: { userId: user.id } })
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('Journal draft delete error:', error)
+      return NextResponse.json({ error: 'Failed to discard draft' }, { status: 500 })
+    }
+  })
+}
@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit'
+import { createJournalExport } from '@/lib/journal-export'
+import { validateQuery, withAuth } from '@/lib/middleware'
+import { journalExportQuerySchema } from '@/lib/schemas'
+import { getRequestMeta } from '@/lib/sessions'
+
+/**
+ * Download the user's whole journal, decrypted
+ * GET /api/journal/export?format=md|json|zip
+ *
+ * md: zip of one Markdown file per day
+ * json: single JSON document with linked bottle names
+ * zip: both of the above plus attached images (default)
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req, user) => {
+    try {
+      const validated = validateQuery(new URL(req.url).searchParams, journalExportQuerySchema)
+      if (!validated.success) {
+        return NextResponse.json({ error: validated.error }, { status: 400 })
+      }
+
+      const { format } = validated.data
+
+      // Get encryption key from cookie
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json(
+          { error: 'Encryption key not found. Please log in again.' },
+          { status: 401 },
+        )
+      }
+
+      const { stream, contentType, filename } = createJournalExport(user.id, encryptionKey, format)
+
+      await recordAuditEvent({
+        action: 'journal.exported',
+        actorId: user.id,
+        metadata: { format },
+        meta: getRequestMeta(req.headers),
+      })
+
+      // Entries are decrypted as the body streams, so nothing is buffered here
+      return new NextResponse(stream, {
+        headers: {
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'private, no-store',
+        },
+      })
+    } catch (error) {
+      console.error('Journal export error:', error)
+      return NextResponse.json({ error: 'Failed to export journal' }, { status: 500 })
+    }
+  })
+}
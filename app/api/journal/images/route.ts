@@ -0,0 +1,83 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit'
+import {
+  deleteJournalImages,
+  journalImageUrl,
+  resolveJournalImages,
+  uploadJournalImage,
+} from '@/lib/journal-images'
+import { withAuth } from '@/lib/middleware'
+import { getRequestMeta } from '@/lib/sessions'
+
+/**
+ * Upload a photo to attach to a journal entry
+ * POST /api/journal/images
+ *
+ * Form data: file (the image), thumbnail (optional small preview)
+ * The returned ID is sent with the entry in /api/journal/submit
+ */
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req, user) => {
+    try {
+      const formData = await req.formData()
+      const file = formData.get('file')
+      const thumbnail = formData.get('thumbnail')
+
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+      }
+
+      const result = await uploadJournalImage(
+        user.id,
+        file,
+        thumbnail instanceof File ? thumbnail : null,
+      )
+
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 })
+      }
+
+      await recordAuditEvent({
+        action: 'image.uploaded',
+        actorId: user.id,
+        target: { type: 'image', id: result.imageId },
+        metadata: { contentType: result.contentType, sizeBytes: file.size, journal: true },
+        meta: getRequestMeta(req.headers),
+      })
+
+      return NextResponse.json({ id: result.imageId, url: journalImageUrl(result.imageId) })
+    } catch (error) {
+      console.error('Journal image upload error:', error)
+      return NextResponse.json({ error: 'Failed to upload photo' }, { status: 500 })
+    }
+  })
+}
+
+/**
+ * Discard an uploaded photo that hasn't been attached to an entry yet
+ * DELETE /api/journal/images?id=...
+ */
+export async function DELETE(request: NextRequest) {
+  return withAuth(request, async (req, user) => {
+    try {
+      const imageId = new URL(req.url).searchParams.get('id')
+
+      if (!imageId) {
+        return NextResponse.json({ error: 'Image ID is required' }, { status: 400 })
+      }
+
+      // Photos on an entry are removed by deleting the entry
+      const check = await resolveJournalImages(user.id, [imageId])
+      if (!check.success) {
+        return NextResponse.json({ error: check.error }, { status: 400 })
+      }
+
+      await deleteJournalImages(user.id, check.urls)
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      console.error('Journal image delete error:', error)
+      return NextResponse.json({ error: 'Failed to delete photo' }, { status: 500 })
+    }
+  })
+}
@@ -0,0 +1,155 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { recordAuditEvent } from '@/lib/audit'
+import { decryptTextServer, encryptTextServer } from '@/lib/encryption-server-crypto'
+import { entryFingerprint, type ParsedEntry, parseImportFile } from '@/lib/journal-import'
+import { resolveJournalTags } from '@/lib/journal-tags'
+import { withValidatedAuth } from '@/lib/middleware'
+import { prisma } from '@/lib/prisma'
+import {
+  importJournalSchema,
+  journalTagNameSchema,
+  MAX_JOURNAL_IMPORT_SIZE,
+  MAX_JOURNAL_TAGS,
+} from '@/lib/schemas'
+import { getRequestMeta } from '@/lib/sessions'
+
+const PREVIEW_LENGTH = 120
+// JSON escaping and multi-byte text make the body larger than the files' character count
+const MAX_BODY_BYTES = MAX_JOURNAL_IMPORT_SIZE * 2
+
+/**
+ * Import entries from older journals
+ * POST /api/journal/import
+ *
+ * Body: {
+ *   files: { name: string, content: string }[],  // .md/.txt files or Day One .json exports
+ *   dryRun?: boolean  // default true: only report what would be imported
+ * }
+ *
+ * Entries matching an existing one (same day and text) are skipped. Imported entries are
+ * plain journal rows and never open a bottle; prompts and tags from this app's own export
+ * are kept
+ */
+export async function POST(request: NextRequest) {
+  // Refuse oversized bodies before anything is read into memory
+  const contentLength = request.headers.get('content-length')
+  if (!contentLength) {
+    return NextResponse.json({ error: 'Content-Length is required' }, { status: 411 })
+  }
+  if (Number(contentLength) > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Import at most 25MB at once' }, { status: 413 })
+  }
+
+  return withValidatedAuth(request, importJournalSchema, async (req, user, data) => {
+    try {
+      // Get encryption key from cookie
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json(
+          { error: 'Encryption key not found. Please log in again.' },
+          { status: 401 },
+        )
+      }
+
+      const parsed: ParsedEntry[] = []
+      const errors: { file: string; error: string }[] = []
+
+      for (const file of data.files) {
+        const result = parseImportFile(file)
+        if (result.success) {
+          parsed.push(...result.entries)
+        } else {
+          errors.push({ file: file.name, error: result.error })
+        }
+      }
+
+      parsed.sort((a, b) => a.date.getTime() - b.date.getTime())
+
+      // Fingerprint existing entries on the days being imported
+      const seen = new Set<string>()
+      if (parsed.length > 0) {
+        const existing = await prisma.journalEntry.findMany({
+          where: {
+            userId: user.id,
+            clientEncrypted: false,
+            date: {
+              gte: new Date(`${parsed[0].date.toISOString().slice(0, 10)}T00:00:00Z`),
+              lte: new Date(
+                `${parsed[parsed.length - 1].date.toISOString().slice(0, 10)}T23:59:59.999Z`,
+              ),
+            },
+          },
+          select: { date: true, entry: true },
+        })
+
+        for (const entry of existing) {
+          try {
+            seen.add(entryFingerprint(entry.date, decryptTextServer(entry.entry, encryptionKey)))
+          } catch (error) {
+            console.error('Failed to decrypt journal entry:', error)
+          }
+        }
+      }
+
+      // Also catches the same entry appearing twice in one import
+      const entries = parsed.map((entry) => {
+        const fingerprint = entryFingerprint(entry.date, entry.text)
+        const duplicate = seen.has(fingerprint)
+        seen.add(fingerprint)
+        return { ...entry, duplicate }
+      })
+
+      const toImport = entries.filter((entry) => !entry.duplicate)
+
+      if (!data.dryRun && toImport.length > 0) {
+        const row = (entry: ParsedEntry) => ({
+          userId: user.id,
+          date: entry.date,
+          entry: encryptTextServer(entry.text, encryptionKey),
+          prompt: entry.prompt ? encryptTextServer(entry.prompt, encryptionKey) : null,
+        })
+        const tagNames = (entry: ParsedEntry) =>
+          (entry.tags ?? [])
+            .filter((tag) => journalTagNameSchema.safeParse(tag).success)
+            .slice(0, MAX_JOURNAL_TAGS)
+
+        // Plain rows only; bottles are opened through /api/journal/submit, never here
+        await prisma.journalEntry.createMany({
+          data: toImport.filter((entry) => tagNames(entry).length === 0).map(row),
+        })
+
+        // Tag links can't be made by createMany
+        for (const entry of toImport.filter((entry) => tagNames(entry).length > 0)) {
+          const tagIds = await resolveJournalTags(user.id, encryptionKey, tagNames(entry))
+          await prisma.journalEntry.create({
+            data: { ...row(entry), tags: { create: tagIds.map((tagId) => ({ tagId })) } },
+          })
+        }
+
+        await recordAuditEvent({
+          action: 'journal.imported',
+          actorId: user.id,
+          metadata: { count: toImport.length, files: data.files.length },
+          meta: getRequestMeta(req.headers),
+        })
+      }
+
+      return NextResponse.json({
+        dryRun: data.dryRun,
+        imported: data.dryRun ? 0 : toImport.length,
+        newEntries: toImport.length,
+        duplicates: entries.length - toImport.length,
+        entries: entries.map((entry) => ({
+          date: entry.date,
+          source: entry.source,
+          preview: entry.text.slice(0, PREVIEW_LENGTH),
+          duplicate: entry.duplicate,
+        })),
+        errors,
+      })
+    } catch (error) {
+      console.error('Journal import error:', error)
+      return NextResponse.json({ error: 'Failed to import journal entries' }, { status: 500 })
+    }
+  })
+}
@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { backfillEntryMoods } from '@/lib/journal-mood'
+import { withAuth } from '@/lib/middleware'
+
+/**
+ * Analyze the mood of older entries, one batch per call
+ * POST /api/journal/mood/backfill
+ *
+ * Returns { processed, remaining }; call again until remaining is 0
+ */
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req, user) => {
+    try {
+      // Get encryption key from cookie
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json(
+          { error: 'Encryption key not found. Please log in again.' },
+          { status: 401 },
+        )
+      }
+
+      const result = await backfillEntryMoods(user.id, encryptionKey)
+
+      return NextResponse.json(result)
+    } catch (error) {
+      console.error('Mood backfill error:', error)
+      return NextResponse.json({ error: 'Failed to analyze entries' }, { status: 500 })
+    }
+  })
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { getMoodTimeline } from '@/lib/journal-mood'
+import { validateQuery, withAuth } from '@/lib/middleware'
+import { moodTimelineQuerySchema } from '@/lib/schemas'
+
+/**
+ * Mood timeline for the last few weeks
+ * GET /api/journal/mood?weeks=26
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req, user) => {
+    try {
+      const validated = validateQuery(new URL(req.url).searchParams, moodTimelineQuerySchema)
+      if (!validated.success) {
+        return NextResponse.json({ error: validated.error }, { status: 400 })
+      }
+
+      // Get encryption key from cookie
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json(
+          { error: 'Encryption key not found. Please log in again.' },
+          { status: 401 },
+        )
+      }
+
+      const timeline = await getMoodTimeline(user.id, encryptionKey, validated.data.weeks)
+
+      return NextResponse.json(timeline)
+    } catch (error) {
+      console.error('Mood timeline error:', error)
+      return NextResponse.json({ error: 'Failed to load mood timeline' }, { status: 500 })
+    }
+  })
+}
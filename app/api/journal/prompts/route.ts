@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/middleware'
+import { suggestWritingPrompts } from '@/lib/writing-prompts'
+
+/**
+ * Suggest writing prompts for today's entry (called again to shuffle)
+ * GET /api/journal/prompts
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req, user) => {
+    try {
+      // Get encryption key from cookie
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json(
+          { error: 'Encryption key not found. Please log in again.' },
+          { status: 401 },
+        )
+      }
+
+      // Falls back to the local prompt bank if the AI is unavailable
+      const result = await suggestWritingPrompts(user.id, encryptionKey)
+
+      return NextResponse.json(result)
+    } catch (error) {
+      console.error('Writing prompts error:', error)
+      return NextResponse.json({ error: 'Failed to suggest prompts' }, { status: 500 })
+    }
+  })
+}
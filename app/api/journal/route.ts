@@ -1,7 +1,13 @@
 import { type NextRequest, NextResponse } from 'next/server'
-import { withAuth } from '@/lib/middleware'
-import { encryptTextServer, decryptTextServer } from '@/lib/encryption-server-crypto'
-import { prisma } from '@/lib/prisma'
+import { validateQuery, withAuth, withValidatedAuth } from '@/lib/middleware'
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  listJournalEntries,
+  updateJournalEntry,
+} from '@/lib/journal'
+import { journalIdQuerySchema, listJournalSchema, updateJournalSchema } from '@/lib/schemas'
+import { getRequestMeta } from '@/lib/sessions'
 
 export async function POST(request: NextRequest) {
   return withAuth(request, async (req, user) => {
@@ -18,21 +24,13 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Encryption key not found. Please log in again.' }, { status: 401 })
       }
 
-      // Encrypt entry before storing
-      const encryptedEntry = encryptTextServer(entry, encryptionKey)
-
-      const journalEntry = await prisma.journalEntry.create({
-        data: {
-          userId: user.id,
-          date: new Date(date),
-          entry: encryptedEntry,
-        },
+      // Encrypted before storing
+      const journalEntry = await createJournalEntry(user.id, encryptionKey, {
+        entry,
+        date: new Date(date),
       })
 
-      return NextResponse.json({
-        id: journalEntry.id,
-        date: journalEntry.date,
-      })
+      return NextResponse.json(journalEntry)
     } catch (error) {
       console.error('Journal creation error:', error)
       return NextResponse.json({ error: 'Failed to create journal entry' }, { status: 500 })
@@ -40,50 +38,28 @@ export async function POST(request: NextRequest) {
   })
 }
 
-// Get all journal entries with bottle info
+/**
+ * Get a page of journal entries with bottle info, newest first
+ * GET /api/journal?cursor=<nextCursor>&limit=20
+ */
 export async function GET(request: NextRequest) {
   return withAuth(request, async (req, user) => {
     try {
+      const validated = validateQuery(new URL(req.url).searchParams, listJournalSchema)
+      if (!validated.success) {
+        return NextResponse.json({ error: validated.error }, { status: 400 })
+      }
+
       // Get encryption key from cookie
       const encryptionKey = req.cookies.get('encryptionKey')?.value
       if (!encryptionKey) {
         return NextResponse.json({ error: 'Encryption key not found. Please log in again.' }, { status: 401 })
       }
 
-      const entries = await prisma.journalEntry.findMany({
-        where: {
-          userId: user.id,
-        },
-        include: {
-          bottleOpen: {
-            include: {
-              bottle: {
-                select: {
-                  id: true,
-                  name: true,
-                },
-              },
-            },
-          },
-        },
-        orderBy: {
-          date: 'desc',
-        },
-      })
-
-      // Decrypt all entries before sending to client
-      const decryptedEntries = entries.map((entry) => {
-        try {
-          const decryptedEntry = decryptTextServer(entry.entry, encryptionKey)
-          return { ...entry, entry: decryptedEntry }
-        } catch (error) {
-          console.error('Failed to decrypt journal entry:', error)
-          // Return raw encrypted string if decryption fails
-          return { ...entry }
-        }
-      })
+      // Only the returned page is decrypted
+      const page = await listJournalEntries(user.id, encryptionKey, validated.data)
 
-      return NextResponse.json({ entries: decryptedEntries })
+      return NextResponse.json(page)
     } catch (error) {
       console.error('Journal fetch error:', error)
       return NextResponse.json({ error: 'Failed to fetch journal entries' }, { status: 500 })
@@ -91,6 +67,37 @@ export async function GET(request: NextRequest) {
   })
 }
 
+// Edit a journal entry's text (linked bottle opens are kept)
+export async function PUT(request: NextRequest) {
+  return withValidatedAuth(request, updateJournalSchema, async (req, user, data) => {
+    try {
+      const validated = validateQuery(new URL(req.url).searchParams, journalIdQuerySchema)
+      if (!validated.success) {
+        return NextResponse.json({ error: validated.error }, { status: 400 })
+      }
+
+      const { id } = validated.data
+
+      // Get encryption key from cookie
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json({ error: 'Encryption key not found. Please log in again.' }, { status: 401 })
+      }
+
+      const result = await updateJournalEntry(user.id, encryptionKey, id, data, getRequestMeta(req.headers))
+      if (!result.success) {
+        const status = { NOT_FOUND: 404, FORBIDDEN: 403, BAD_REQUEST: 400 }[result.code]
+        return NextResponse.json({ error: result.error }, { status })
+      }
+
+      return NextResponse.json(result.entry)
+    } catch (error) {
+      console.error('Journal update error:', error)
+      return NextResponse.json({ error: 'Failed to update journal entry' }, { status: 500 })
+    }
+  })
+}
+
 // Delete a journal entry
 export async function DELETE(request: NextRequest) {
   return withAuth(request, async (req, user) => {
@@ -102,27 +109,11 @@ export async function DELETE(request: NextRequest) {
         return NextResponse.json({ error: 'Journal ID is required' }, { status: 400 })
       }
 
-      // First, check if the journal entry belongs to the user
-      const journalEntry = await prisma.journalEntry.findUnique({
-        where: { id: parseInt(journalId, 10) },
-      })
-
-      if (!journalEntry) {
-        return NextResponse.json({ error: 'Journal entry not found' }, { status: 404 })
+      const result = await deleteJournalEntry(user.id, parseInt(journalId, 10), getRequestMeta(req.headers))
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.code === 'NOT_FOUND' ? 404 : 403 })
       }
 
-      if (journalEntry.userId !== user.id) {
-        return NextResponse.json(
-          { error: 'Unauthorized - You can only delete your own journal entries' },
-          { status: 403 },
-        )
-      }
-
-      // Delete the journal entry (cascade will handle bottleOpen)
-      await prisma.journalEntry.delete({
-        where: { id: parseInt(journalId, 10) },
-      })
-
       return NextResponse.json({ message: 'Journal entry deleted successfully' })
     } catch (error) {
       console.error('Journal delete error:', error)
@@ -0,0 +1,102 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { decryptTextServer } from '@/lib/encryption-server-crypto'
+import { parseSearchQuery, type SearchSnippet, searchEntry } from '@/lib/journal-search'
+import { validateQuery, withAuth } from '@/lib/middleware'
+import { prisma } from '@/lib/prisma'
+import { journalSearchQuerySchema } from '@/lib/schemas'
+
+const MAX_RESULTS = 50
+
+/**
+ * Search the user's journal entries
+ * GET /api/journal/search?q=...&from=...&to=...&linked=true|false
+ *
+ * Entries are decrypted with the cookie key and matched in memory, newest first
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req, user) => {
+    try {
+      const validated = validateQuery(new URL(req.url).searchParams, journalSearchQuerySchema)
+      if (!validated.success) {
+        return NextResponse.json({ error: validated.error }, { status: 400 })
+      }
+
+      const { q, from, to, linked } = validated.data
+
+      // Get encryption key from cookie
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json(
+          { error: 'Encryption key not found. Please log in again.' },
+          { status: 401 },
+        )
+      }
+
+      const terms = parseSearchQuery(q)
+
+      // Date and bottle filters run in the database, text matching can't.
+      // Private entries are left out, only the browser can read them
+      const entries = await prisma.journalEntry.findMany({
+        where: {
+          userId: user.id,
+          clientEncrypted: false,
+          ...(from || to ? { date: { gte: from, lte: to } } : {}),
+          ...(linked ? { bottleOpen: linked === 'true' ? { isNot: null } : { is: null } } : {}),
+        },
+        include: {
+          bottleOpen: {
+            include: {
+              bottle: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: {
+          date: 'desc',
+        },
+      })
+
+      const results: {
+        id: number
+        date: Date
+        bottle: { id: number; name: string } | null
+        snippets: SearchSnippet[]
+      }[] = []
+      let total = 0
+
+      for (const entry of entries) {
+        let text: string
+        try {
+          text = decryptTextServer(entry.entry, encryptionKey)
+        } catch (error) {
+          console.error('Failed to decrypt journal entry:', error)
+          continue
+        }
+
+        const snippets = searchEntry(text, terms)
+        if (!snippets) {
+          continue
+        }
+
+        total++
+        if (results.length < MAX_RESULTS) {
+          results.push({
+            id: entry.id,
+            date: entry.date,
+            bottle: entry.bottleOpen?.bottle ?? null,
+            snippets,
+          })
+        }
+      }
+
+      return NextResponse.json({ results, total })
+    } catch (error) {
+      console.error('Journal search error:', error)
+      return NextResponse.json({ error: 'Failed to search journal entries' }, { status: 500 })
+    }
+  })
+}
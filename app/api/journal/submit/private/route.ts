@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { submitPrivateJournalEntry } from '@/lib/journal'
+import { withValidatedAuth } from '@/lib/middleware'
+import { submitPrivateJournalSchema } from '@/lib/schemas'
+import { getRequestMeta } from '@/lib/sessions'
+
+// Submit a journal entry encrypted in the browser and try to open a bottle for its shared mood
+export async function POST(request: NextRequest) {
+  return withValidatedAuth(request, submitPrivateJournalSchema, async (req, user, data) => {
+    try {
+      // The entry itself is already encrypted; the data key still encrypts the stored mood
+      const encryptionKey = req.cookies.get('encryptionKey')?.value
+      if (!encryptionKey) {
+        return NextResponse.json(
+          { error: 'Encryption key not found. Please log in again.' },
+          { status: 401 },
+        )
+      }
+
+      const result = await submitPrivateJournalEntry(
+        user,
+        encryptionKey,
+        data,
+        getRequestMeta(req.headers),
+      )
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 })
+      }
+
+      return NextResponse.json({
+        journalId: result.journalId,
+        bottleId: result.bottleId,
+        message: result.message,
+      })
+    } catch (error) {
+      console.error('Private journal submit error:', error)
+      return NextResponse.json({ error: 'Failed to submit journal' }, { status: 500 })
+    }
+  })
+}
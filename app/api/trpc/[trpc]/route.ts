@@ -1,6 +1,25 @@
+import { TRPCError } from '@trpc/server'
 import { fetchRequestHandler } from '@trpc/server/adapters/fetch'
+import { verifyToken } from '@/lib/auth'
+import { checkCsrf, CSRF_COOKIE } from '@/lib/csrf'
 import { appRouter } from '@/lib/trpc/router'
-import { createContext } from '@/lib/trpc/context'
+import { createContext, parseCookies } from '@/lib/trpc/context'
+
+/**
+ * Refuses cross-site mutations; signed-in ones must also carry the CSRF token
+ * Thrown from createContext so tRPC returns a FORBIDDEN error for every call in the batch
+ */
+function assertCsrf(req: Request) {
+  const cookies = parseCookies(req.headers.get('cookie'))
+  const error = checkCsrf(req.method, req.headers, cookies[CSRF_COOKIE], {
+    // A stale token can't authenticate anything, so it shouldn't block e.g. passkey sign-in
+    requireToken: !!cookies.token && !!verifyToken(cookies.token),
+  })
+
+  if (error) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: error })
+  }
+}
 
 /**
  * tRPC API handler for Next.js App Router
@@ -11,7 +30,10 @@ const handler = (req: Request) =>
     endpoint: '/api/trpc',
     req,
     router: appRouter,
-    createContext: (opts) => createContext(opts),
+    createContext: (opts) => {
+      assertCsrf(opts.req)
+      return createContext(opts)
+    },
     onError:
       process.env.NODE_ENV === 'development'
         ? ({ path, error }) => {
@@ -3,6 +3,8 @@ import { withAuth } from '@/lib/middleware'
 import { uploadToR2, generateStorageKey } from '@/lib/r2'
 import { grantImageAccess } from '@/lib/image-access'
 import { prisma } from '@/lib/prisma'
+import { recordAuditEvent } from '@/lib/audit'
+import { getRequestMeta } from '@/lib/sessions'
 
 export async function POST(req: NextRequest) {
   return withAuth(req, async (_request, user) => {
@@ -61,6 +63,14 @@ export async function POST(req: NextRequest) {
       // Grant access to the uploader
       await grantImageAccess(image.id, user.id)
 
+      await recordAuditEvent({
+        action: 'image.uploaded',
+        actorId: user.id,
+        target: { type: 'image', id: image.id },
+        metadata: { contentType: file.type, sizeBytes: file.size },
+        meta: getRequestMeta(req.headers),
+      })
+
       // Return image ID (not the R2 URL - keeps images private)
       return NextResponse.json({
         id: image.id,
@@ -1,17 +1,29 @@
 'use client'
 
 import { useRouter } from 'next/navigation'
-import { useEffect, useState } from 'react'
-import { useAuth } from '@/lib/auth-context'
+import { useEffect, useRef, useState } from 'react'
+import { LoginError, useAuth } from '@/lib/auth-context'
+import { getPasskeyAssertion, passkeysSupported } from '@/lib/passkey-client'
 import { api } from '@/lib/trpc/client'
+import { RecoveryCodeList } from '../settings/RecoveryCodeList'
 
 export default function LoginPage() {
   const [isSignup, setIsSignup] = useState(false)
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
+  const [inviteCode, setInviteCode] = useState('')
+  const [twoFactorCode, setTwoFactorCode] = useState('')
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false)
   const [error, setError] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [canUsePasskey, setCanUsePasskey] = useState(false)
+  const [passkeyPending, setPasskeyPending] = useState(false)
   const router = useRouter()
   const { login, user } = useAuth()
+  // Where to go once logged in; admins who must use 2FA go set it up first
+  const redirectTo = useRef('/')
 
   const loginMutation = api.auth.login.useMutation({
     onSuccess: () => {
@@ -23,20 +35,55 @@ export default function LoginPage() {
   })
 
   const signupMutation = api.auth.setup.useMutation({
-    onSuccess: () => {
-      router.push('/')
+    onSuccess: (data) => {
+      // Show recovery codes once before entering
+      setRecoveryCodes(data.recoveryCodes)
     },
     onError: (error) => {
       setError(error.message)
     },
   })
 
+  const passkeyOptions = api.passkeys.loginOptions.useMutation()
+  const passkeyLogin = api.passkeys.login.useMutation()
+
+  // The first account on an empty site doesn't need an invite
+  const { data: setupStatus } = api.auth.checkSetup.useQuery()
+
   useEffect(() => {
     if (user) {
-      router.push('/')
+      router.push(redirectTo.current)
     }
   }, [user, router])
 
+  // Invite links look like /login?invite=CODE and open the signup form
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('invite')
+    if (code) {
+      setInviteCode(code)
+      setIsSignup(true)
+    }
+  }, [])
+
+  useEffect(() => {
+    setCanUsePasskey(passkeysSupported())
+  }, [])
+
+  // Tick once a second while locked out so the countdown updates
+  useEffect(() => {
+    if (!lockedUntil) return
+
+    const interval = setInterval(() => {
+      setNow(Date.now())
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(null)
+        setError('')
+      }
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [lockedUntil])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -44,18 +91,64 @@ export default function LoginPage() {
     try {
       if (isSignup) {
         // ✅ Use tRPC mutation for signup
-        await signupMutation.mutateAsync({ email, password })
+        await signupMutation.mutateAsync({
+          email,
+          password,
+          inviteCode: inviteCode.trim() || undefined,
+        })
       } else {
         // Keep existing login method from auth context
-        await login(email, password)
-        router.push('/')
+        const result = await login(email, password, needsTwoFactor ? twoFactorCode : undefined)
+        redirectTo.current = result.twoFactorSetupRequired ? '/settings' : '/'
+        router.push(redirectTo.current)
       }
     } catch (err) {
+      if (err instanceof LoginError && err.code === 'TWO_FACTOR_REQUIRED') {
+        // Password was right, ask for the authenticator code next
+        setNeedsTwoFactor(true)
+        return
+      }
+      if (err instanceof LoginError && err.code === 'LOGIN_LOCKED' && err.retryAfter) {
+        setLockedUntil(Date.now() + err.retryAfter * 1000)
+        setNow(Date.now())
+        setError('too many failed attempts, account temporarily locked')
+        return
+      }
       setError(err instanceof Error ? err.message : 'An error occurred')
     }
   }
 
+  const handlePasskeyLogin = async () => {
+    setError('')
+    setPasskeyPending(true)
+
+    try {
+      const { challengeId, options } = await passkeyOptions.mutateAsync()
+      const { response, prfOutput } = await getPasskeyAssertion(options)
+      await passkeyLogin.mutateAsync({ challengeId, response, prfOutput })
+      // Full reload so the auth context picks up the new session
+      window.location.href = '/'
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Passkey sign-in failed')
+      setPasskeyPending(false)
+    }
+  }
+
   const loading = loginMutation.isPending || signupMutation.isPending
+  const lockSeconds = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0
+
+  if (recoveryCodes) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4 bg-black">
+        <div className="max-w-sm w-full space-y-8">
+          <h2 className="text-xl text-center text-[#ff006e] font-mono tracking-wider">
+            {'> RECOVERY_CODES'}
+          </h2>
+          <RecoveryCodeList codes={recoveryCodes} onDone={() => router.push('/')} />
+        </div>
+      </div>
+    )
+  }
 
   return (
     <div className="min-h-screen flex items-center justify-center px-4 bg-black">
@@ -105,27 +198,94 @@ export default function LoginPage() {
               />
               {isSignup && <p className="mt-1 text-xs text-white/40 font-mono">min 8 chars</p>}
             </div>
+
+            {!isSignup && needsTwoFactor && (
+              <div>
+                <label
+                  htmlFor="twoFactorCode"
+                  className="block text-sm text-white/60 font-mono mb-2"
+                >
+                  2fa code:
+                </label>
+                <input
+                  id="twoFactorCode"
+                  type="text"
+                  required
+                  autoComplete="one-time-code"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+                  placeholder="123456 or backup code"
+                />
+              </div>
+            )}
+
+            {isSignup && setupStatus?.isSetup !== false && (
+              <div>
+                <label htmlFor="inviteCode" className="block text-sm text-white/60 font-mono mb-2">
+                  invite code:
+                </label>
+                <input
+                  id="inviteCode"
+                  type="text"
+                  required
+                  autoComplete="off"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+                  placeholder="from your invite link"
+                />
+              </div>
+            )}
           </div>
 
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || (!isSignup && lockSeconds > 0)}
             className="w-full py-2 text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
           >
-            {loading ? 'LOADING...' : isSignup ? 'CREATE' : 'ENTER'}
+            {loading
+              ? 'LOADING...'
+              : isSignup
+                ? 'CREATE'
+                : lockSeconds > 0
+                  ? `LOCKED (${lockSeconds}s)`
+                  : 'ENTER'}
           </button>
 
+          {!isSignup && canUsePasskey && (
+            <button
+              type="button"
+              onClick={handlePasskeyLogin}
+              disabled={passkeyPending}
+              className="w-full py-2 text-sm text-white/70 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition disabled:opacity-50 font-mono"
+            >
+              {passkeyPending ? 'WAITING FOR PASSKEY...' : 'USE PASSKEY'}
+            </button>
+          )}
+
           <div className="text-center">
             <button
               type="button"
               onClick={() => {
                 setIsSignup(!isSignup)
+                setNeedsTwoFactor(false)
+                setTwoFactorCode('')
                 setError('')
               }}
               className="text-sm text-white/50 hover:text-[#ff006e] font-mono transition"
             >
               {isSignup ? '< back to login' : '> create account'}
             </button>
+            {!isSignup && (
+              <button
+                type="button"
+                onClick={() => router.push('/recover')}
+                className="block mx-auto mt-2 text-sm text-white/50 hover:text-[#ff006e] font-mono transition"
+              >
+                {'> forgot password'}
+              </button>
+            )}
           </div>
         </form>
       </div>
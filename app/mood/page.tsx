@@ -0,0 +1,257 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { apiFetch, useAuth } from '@/lib/auth-context'
+
+const RANGES = [12, 26, 52] // Weeks
+const CLUSTER_COLORS = ['#ff006e', '#8338ec', '#3a86ff', '#06d6a0', '#ffbe0b', '#fb5607']
+const UNLABELLED_COLOR = 'rgba(255, 255, 255, 0.3)'
+
+interface MoodTimeline {
+  weeks: { week: string; entries: number; drift: number | null; label: string | null }[]
+  days: { id: number; date: string; moodQuery: string | null; label: string | null }[]
+  pending: number
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date)
+  next.setDate(date.getDate() + days)
+  return next
+}
+
+function localDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+export default function MoodPage() {
+  const { user, isLoading } = useAuth()
+  const router = useRouter()
+  const [weeks, setWeeks] = useState(26)
+  const [timeline, setTimeline] = useState<MoodTimeline | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [backfilling, setBackfilling] = useState(false)
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push('/login')
+    }
+  }, [user, isLoading, router])
+
+  const fetchTimeline = useCallback(async () => {
+    try {
+      const res = await apiFetch(`/api/journal/mood?weeks=${weeks}`)
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load mood timeline')
+      }
+
+      setTimeline(data)
+      setError('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [weeks])
+
+  useEffect(() => {
+    if (user) {
+      fetchTimeline()
+    }
+  }, [fetchTimeline, user])
+
+  // Analyze older entries a batch at a time until none are left
+  const handleBackfill = async () => {
+    setBackfilling(true)
+    setError('')
+
+    try {
+      let remaining = timeline?.pending ?? 0
+      while (remaining > 0) {
+        const res = await apiFetch('/api/journal/mood/backfill', { method: 'POST' })
+        const data = await res.json()
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to analyze entries')
+        }
+
+        remaining = data.remaining
+        setTimeline((prev) => (prev ? { ...prev, pending: remaining } : prev))
+        if (data.processed === 0) break
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setBackfilling(false)
+      fetchTimeline()
+    }
+  }
+
+  if (isLoading || !user || loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <p className="text-white/50 font-mono">loading...</p>
+      </div>
+    )
+  }
+
+  // Each nearest-bottle mood is a cluster, most common first
+  const clusterCounts = new Map<string, number>()
+  for (const day of timeline?.days ?? []) {
+    if (day.label) {
+      clusterCounts.set(day.label, (clusterCounts.get(day.label) ?? 0) + 1)
+    }
+  }
+  const clusters = [...clusterCounts.entries()].sort((a, b) => b[1] - a[1])
+  const colorFor = (label: string | null) => {
+    const index = clusters.findIndex(([l]) => l === label)
+    return index === -1 ? UNLABELLED_COLOR : CLUSTER_COLORS[index % CLUSTER_COLORS.length]
+  }
+
+  // Calendar columns are weeks starting Monday; the latest entry of a day sets its color
+  const dayMoods = new Map<string, MoodTimeline['days'][number]>()
+  for (const day of timeline?.days ?? []) {
+    dayMoods.set(localDayKey(new Date(day.date)), day)
+  }
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const start = new Date(today)
+  start.setDate(today.getDate() - (weeks * 7 - 1))
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  const calendar: Date[][] = []
+  for (let day = start; day <= today; day = addDays(day, 1)) {
+    if ((day.getDay() + 6) % 7 === 0) calendar.push([])
+    calendar[calendar.length - 1].push(day)
+  }
+
+  const maxDrift = Math.max(0.01, ...(timeline?.weeks ?? []).map((week) => week.drift ?? 0))
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <header className="border-b border-white/10">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 py-3 sm:py-4 flex justify-between items-center">
+          <h1 className="text-base sm:text-lg text-[#ff006e] font-mono tracking-wider">MOOD</h1>
+          <button
+            onClick={() => router.push('/')}
+            className="text-white/60 hover:text-[#ff006e] transition text-xs sm:text-sm font-mono whitespace-nowrap"
+          >
+            {`< back`}
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 py-8 sm:py-12 space-y-12 sm:space-y-16">
+        <div className="flex gap-3">
+          {RANGES.map((range) => (
+            <button
+              key={range}
+              onClick={() => setWeeks(range)}
+              className={`text-xs font-mono transition ${
+                weeks === range ? 'text-[#ff006e]' : 'text-white/40 hover:text-[#ff006e]'
+              }`}
+            >
+              [{range} weeks]
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        {!!timeline?.pending && (
+          <div className="border border-white/10 p-3 sm:p-4 text-xs sm:text-sm font-mono flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-white/60">{timeline.pending} entries have no mood yet.</p>
+            <button
+              onClick={handleBackfill}
+              disabled={backfilling}
+              className="px-3 py-1 text-xs text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition font-mono self-start whitespace-nowrap disabled:opacity-50"
+            >
+              {backfilling ? '[analyzing...]' : '[analyze]'}
+            </button>
+          </div>
+        )}
+
+        {/* Calendar */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> CALENDAR`}</h2>
+          <div className="flex gap-1 overflow-x-auto pb-2">
+            {calendar.map((week) => (
+              <div key={week[0].getTime()} className="flex flex-col gap-1">
+                {week.map((day) => {
+                  const mood = dayMoods.get(localDayKey(day))
+                  return (
+                    <div
+                      key={day.getTime()}
+                      title={`${day.toLocaleDateString('en-US')}${mood?.moodQuery ? `: ${mood.moodQuery}` : ''}`}
+                      className="h-3 w-3 sm:h-4 sm:w-4 border border-white/10"
+                      style={mood ? { backgroundColor: colorFor(mood.label) } : undefined}
+                    />
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+
+          {clusters.length > 0 && (
+            <ul className="mt-4 space-y-2 text-xs font-mono">
+              {clusters.map(([label, count]) => (
+                <li key={label} className="flex items-start gap-2 text-white/60">
+                  <span
+                    className="mt-0.5 h-3 w-3 shrink-0"
+                    style={{ backgroundColor: colorFor(label) }}
+                  />
+                  <span>
+                    {label} <span className="text-white/30">({count})</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Weekly drift */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> DRIFT`}</h2>
+
+          {!timeline?.weeks.length ? (
+            <p className="text-white/40 font-mono text-xs sm:text-sm">no moods in this range.</p>
+          ) : (
+            <ul className="space-y-3">
+              {timeline.weeks.map((week) => (
+                <li key={week.week} className="text-xs font-mono space-y-1">
+                  <div className="flex justify-between text-white/40">
+                    <span>
+                      week of{' '}
+                      {new Date(week.week).toLocaleDateString('en-US', {
+                        month: '2-digit',
+                        day: '2-digit',
+                      })}
+                    </span>
+                    <span>{week.entries} entries</span>
+                  </div>
+                  <div className="h-1 bg-white/10">
+                    <div
+                      className="h-1"
+                      style={{
+                        width: `${((week.drift ?? 0) / maxDrift) * 100}%`,
+                        backgroundColor: colorFor(week.label),
+                      }}
+                    />
+                  </div>
+                  {week.label && <p className="text-white/60">{week.label}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -1,30 +1,116 @@
 'use client'
 
 import { useRouter } from 'next/navigation'
-import { useCallback, useEffect, useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useAuth } from '@/lib/auth-context'
+import { decryptText, encryptText } from '@/lib/encryption'
+import { useJournalDraft } from '@/lib/journal-draft'
+import { usePrivateJournal } from '@/lib/private-journal-context'
+import { api } from '@/lib/trpc/client'
+import { JournalSearch } from './JournalSearch'
+import { type AttachedPhoto, PhotoAttachments } from './PhotoAttachments'
+import { PrivateEntryText, PrivateUnlock } from './PrivateJournal'
+import { TagInput } from './TagInput'
+import { WritingPrompts } from './WritingPrompts'
 
-interface JournalEntry {
-  id: number
-  date: string
-  entry: string
-  bottleOpen?: {
-    bottle: {
-      id: number
-      name: string
-    }
-  }
-}
+const PAGE_SIZE = 20
 
 export default function HomePage() {
   const { user, logout, isLoading } = useAuth()
+  const { available: privateAvailable, key: privateKey, lock } = usePrivateJournal()
   const router = useRouter()
+  const [privateMode, setPrivateMode] = useState(false)
+  const [mood, setMood] = useState('')
   const [entry, setEntry] = useState('')
+  const [photos, setPhotos] = useState<AttachedPhoto[]>([])
+  const [prompt, setPrompt] = useState<string | null>(null)
+  const [tags, setTags] = useState<string[]>([])
+  const [filterTagIds, setFilterTagIds] = useState<number[]>([])
   const [message, setMessage] = useState('')
-  const [journals, setJournals] = useState<JournalEntry[]>([])
-  const [loadingJournals, setLoadingJournals] = useState(true)
+  const [sentinel, setSentinel] = useState<HTMLDivElement | null>(null)
   const [submitting, setSubmitting] = useState(false)
   const [dots, setDots] = useState('')
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editText, setEditText] = useState('')
+  const [editTags, setEditTags] = useState<string[]>([])
+  const [editError, setEditError] = useState('')
+  // Private entries must not reach the server as plaintext, drafts included
+  const {
+    savedAt: draftSavedAt,
+    markSubmitted,
+    discard: discardDraft,
+  } = useJournalDraft(entry, setEntry, !!user, privateMode)
+  const utils = api.useUtils()
+
+  const { data: tagsData } = api.tags.list.useQuery(undefined, { enabled: !!user })
+  const tagNames = tagsData?.tags.map((tag) => tag.name) || []
+
+  // Entries are already decrypted by the server, except private ones (see PrivateEntryText)
+  const listInput = { limit: PAGE_SIZE, tagIds: filterTagIds.length > 0 ? filterTagIds : undefined }
+  const {
+    data,
+    isLoading: loadingJournals,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = api.journal.list.useInfiniteQuery(listInput, {
+    enabled: !!user,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  })
+  const journals = data?.pages.flatMap((page) => page.entries) || []
+
+  const submitJournal = api.journal.submit.useMutation()
+  const submitPrivateJournal = api.journal.submitPrivate.useMutation()
+
+  // Show the edit right away and roll it back if the server rejects it
+  const updateJournal = api.journal.update.useMutation({
+    onMutate: async ({ id, entry, tags = [] }) => {
+      await utils.journal.list.cancel()
+      const previous = utils.journal.list.getInfiniteData(listInput)
+
+      // New tags get their ID from the server once the list is refetched
+      const optimisticTags = tags.map((name) => ({
+        id: tagsData?.tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase())?.id ?? 0,
+        name,
+      }))
+
+      // Only the text and tags change; the linked bottle stays as it was
+      utils.journal.list.setInfiniteData(listInput, (prev) =>
+        prev
+          ? {
+              ...prev,
+              pages: prev.pages.map((page) => ({
+                ...page,
+                entries: page.entries.map((journal) =>
+                  journal.id === id
+                    ? {
+                        ...journal,
+                        entry,
+                        tags: optimisticTags,
+                        updatedAt: new Date().toISOString(),
+                      }
+                    : journal,
+                ),
+              })),
+            }
+          : prev,
+      )
+      setEditingId(null)
+
+      return { previous }
+    },
+    onError: (error, { id }, context) => {
+      utils.journal.list.setInfiniteData(listInput, context?.previous)
+      // Reopen the editor with the unsaved text
+      setEditingId(id)
+      setEditError(error.message)
+    },
+    onSettled: () => {
+      utils.journal.list.invalidate()
+      utils.tags.list.invalidate()
+    },
+  })
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -43,52 +129,79 @@ export default function HomePage() {
     return () => clearInterval(interval)
   }, [submitting])
 
-  const fetchJournals = useCallback(async () => {
-    try {
-      const res = await fetch('/api/journal', {
-        credentials: 'include',
-      })
-
-      if (res.ok) {
-        const data = await res.json()
-        // Entries are already decrypted by the server
-        setJournals(data.entries)
-      }
-    } catch (err) {
-      console.error('Failed to fetch journals:', err)
-    } finally {
-      setLoadingJournals(false)
-    }
-  }, [])
-
+  // Load the next page as the end of the list scrolls into view
+  // A failed page isn't retried on scroll, so it isn't requested in a loop
   useEffect(() => {
-    if (user) {
-      fetchJournals()
+    if (!sentinel || isFetchingNextPage || isFetchNextPageError) return
+
+    const observer = new IntersectionObserver(
+      ([item]) => {
+        if (item.isIntersecting) fetchNextPage()
+      },
+      { rootMargin: '200px' },
+    )
+    observer.observe(sentinel)
+
+    return () => observer.disconnect()
+  }, [sentinel, isFetchingNextPage, isFetchNextPageError, fetchNextPage])
+
+  const handleModeChange = (value: boolean) => {
+    if (value === privateMode) return
+
+    if (value) {
+      // The server draft is readable, so it goes as soon as private mode is picked
+      discardDraft()
+    } else if (
+      entry.trim() &&
+      !confirm(
+        'Switch to standard mode? This text will be saved to the server as a readable draft.',
+      )
+    ) {
+      return
     }
-  }, [fetchJournals, user])
+
+    setPrivateMode(value)
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setMessage('')
 
+    if (privateMode && !privateKey) {
+      setMessage('Unlock private mode first')
+      return
+    }
+
     setSubmitting(true)
 
     try {
-      // Send plaintext to server (server will encrypt before DB storage)
-      const res = await fetch('/api/journal/submit', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({ entry }),
-      })
-
-      const data = await res.json()
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Failed to submit journal')
+      const data =
+        privateMode && privateKey
+          ? // Encrypt in the browser; only the mood is sent readable
+            await submitPrivateJournal.mutateAsync({
+              entry: await encryptText(entry, privateKey),
+              prompt: prompt ? await encryptText(prompt, privateKey) : undefined,
+              mood,
+            })
+          : // Send plaintext to server (server will encrypt before DB storage)
+            await submitJournal.mutateAsync({
+              entry,
+              images: photos.map((photo) => photo.id),
+              prompt: prompt ?? undefined,
+              tags,
+            })
+
+      // The photos now belong to the saved entry, and the server discarded the draft
+      if (!privateMode) {
+        setPhotos([])
+        setTags([])
       }
+      setPrompt(null)
+      setMood('')
+      markSubmitted()
+      setEntry('')
+      utils.journal.list.invalidate()
+      utils.tags.list.invalidate()
 
       if (data.bottleId) {
         // Automatically redirect to the bottle page
@@ -102,8 +215,48 @@ export default function HomePage() {
       setMessage(err instanceof Error ? err.message : 'An error occurred')
       setSubmitting(false)
     }
+  }
+
+  const startEditing = async (journal: (typeof journals)[number]) => {
+    setEditError('')
+    setEditTags(journal.tags.map((tag) => tag.name))
+
+    if (!journal.clientEncrypted) {
+      setEditText(journal.entry)
+    } else if (privateKey) {
+      try {
+        setEditText(await decryptText(journal.entry, privateKey))
+      } catch (err) {
+        setEditText('')
+        setEditError(err instanceof Error ? err.message : 'An error occurred')
+      }
+    }
+
+    setEditingId(journal.id)
+  }
+
+  const handleSaveEdit = async (journal: (typeof journals)[number]) => {
+    setEditError('')
+
+    if (!journal.clientEncrypted) {
+      updateJournal.mutate({ id: journal.id, entry: editText, tags: editTags })
+      return
+    }
+
+    if (!privateKey) {
+      setEditError('Unlock private mode first')
+      return
+    }
+
+    updateJournal.mutate({
+      id: journal.id,
+      entry: await encryptText(editText, privateKey),
+      clientEncrypted: true,
+    })
+  }
 
-    setEntry('')
+  const toggleFilterTag = (id: number) => {
+    setFilterTagIds((prev) => (prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id]))
   }
 
   if (isLoading || !user) {
@@ -143,6 +296,18 @@ export default function HomePage() {
                 >
                   help
                 </button>
+                <button
+                  onClick={() => router.push('/mood')}
+                  className="text-xs sm:text-sm text-white/60 hover:text-[#ff006e] font-mono transition whitespace-nowrap"
+                >
+                  mood
+                </button>
+                <button
+                  onClick={() => router.push('/settings')}
+                  className="text-xs sm:text-sm text-white/60 hover:text-[#ff006e] font-mono transition whitespace-nowrap"
+                >
+                  settings
+                </button>
                 {user.isAdmin && (
                   <button
                     onClick={() => router.push('/admin')}
@@ -169,6 +334,52 @@ export default function HomePage() {
           <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> NEW_ENTRY`}</h2>
 
           <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+            {privateAvailable && (
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs font-mono">
+                <span className="text-white/40">mode:</span>
+                {(
+                  [
+                    [false, '[standard]'],
+                    [true, '[private]'],
+                  ] as const
+                ).map(([value, label]) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => handleModeChange(value)}
+                    aria-pressed={privateMode === value}
+                    className={`transition ${
+                      privateMode === value
+                        ? 'text-[#ff006e]'
+                        : 'text-white/40 hover:text-[#ff006e]'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {privateKey && (
+                  <button
+                    type="button"
+                    onClick={lock}
+                    className="text-white/40 hover:text-[#ff006e] transition"
+                  >
+                    [lock]
+                  </button>
+                )}
+              </div>
+            )}
+
+            {privateMode && (
+              <p className="text-xs text-white/40 font-mono">
+                encrypted in this browser before it is sent. the server only sees the mood below, so
+                drafts, photos and tags are off.
+              </p>
+            )}
+
+            {privateMode && !privateKey && <PrivateUnlock />}
+
+            <WritingPrompts selected={prompt} onSelect={setPrompt} />
+
             <div>
               <textarea
                 id="entry"
@@ -181,18 +392,46 @@ export default function HomePage() {
               />
             </div>
 
+            {privateMode ? (
+              <input
+                type="text"
+                aria-label="Mood"
+                required
+                value={mood}
+                onChange={(e) => setMood(e.target.value)}
+                maxLength={200}
+                className="w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono text-xs sm:text-sm"
+                placeholder="the mood in a few words, sent to pick a bottle..."
+              />
+            ) : (
+              <>
+                <TagInput value={tags} onChange={setTags} suggestions={tagNames} />
+
+                <PhotoAttachments photos={photos} onChange={setPhotos} />
+              </>
+            )}
+
             {message && (
               <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
                 {message}
               </div>
             )}
 
-            <button
-              type="submit"
-              className="w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition font-mono"
-            >
-              SUBMIT
-            </button>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <button
+                type="submit"
+                disabled={privateMode && !privateKey}
+                className="w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+              >
+                {privateMode ? 'SUBMIT PRIVATELY' : 'SUBMIT'}
+              </button>
+              {draftSavedAt && entry && !privateMode && (
+                <span className="text-xs text-white/40 font-mono">
+                  draft saved{' '}
+                  {draftSavedAt.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              )}
+            </div>
           </form>
         </div>
 
@@ -200,47 +439,184 @@ export default function HomePage() {
         <div>
           <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> HISTORY`}</h2>
 
-          {loadingJournals ? (
-            <p className="text-white/40 font-mono text-xs sm:text-sm">loading...</p>
-          ) : journals.length === 0 ? (
-            <p className="text-white/40 font-mono text-xs sm:text-sm">no entries found.</p>
-          ) : (
-            <div className="space-y-4 sm:space-y-6">
-              {journals.map((journal) => (
-                <div key={journal.id} className="border border-white/10 p-3 sm:p-4 bg-black/50">
-                  <div className="flex justify-between items-start mb-2 sm:mb-3">
-                    <p className="text-xs text-white/40 font-mono">
-                      {new Date(journal.date).toLocaleDateString('en-US', {
-                        year: 'numeric',
-                        month: '2-digit',
-                        day: '2-digit',
-                      })}
-                    </p>
-                    {/*                    <button
-                      onClick={() => handleDeleteJournal(journal.id)}
-                      className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
-                      title="Delete"
-                    >
-                      [delete]
-                    </button>*/}
+          <JournalSearch>
+            {tagsData && tagsData.tags.length > 0 && (
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mb-4 sm:mb-6">
+                {tagsData.tags.map((tag) => (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => toggleFilterTag(tag.id)}
+                    aria-pressed={filterTagIds.includes(tag.id)}
+                    className={`text-xs font-mono transition ${
+                      filterTagIds.includes(tag.id)
+                        ? 'text-[#ff006e]'
+                        : 'text-white/40 hover:text-[#ff006e]'
+                    }`}
+                  >
+                    #{tag.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            {privateAvailable &&
+              !privateKey &&
+              journals.some((journal) => journal.clientEncrypted) && (
+                <div className="mb-4 sm:mb-6">
+                  <PrivateUnlock />
+                </div>
+              )}
+            {loadingJournals ? (
+              <p className="text-white/40 font-mono text-xs sm:text-sm">loading...</p>
+            ) : journals.length === 0 ? (
+              <p className="text-white/40 font-mono text-xs sm:text-sm">no entries found.</p>
+            ) : (
+              <div className="space-y-4 sm:space-y-6">
+                {journals.map((journal) => (
+                  <div key={journal.id} className="border border-white/10 p-3 sm:p-4 bg-black/50">
+                    <div className="flex justify-between items-start mb-2 sm:mb-3">
+                      <p className="text-xs text-white/40 font-mono">
+                        {new Date(journal.date).toLocaleDateString('en-US', {
+                          year: 'numeric',
+                          month: '2-digit',
+                          day: '2-digit',
+                        })}
+                        {journal.updatedAt && ' (edited)'}
+                        {journal.clientEncrypted ? (
+                          <span className="text-[#ff006e]"> [private]</span>
+                        ) : (
+                          privateAvailable && ' [standard]'
+                        )}
+                      </p>
+                      {editingId !== journal.id && (!journal.clientEncrypted || privateKey) && (
+                        <button
+                          type="button"
+                          onClick={() => startEditing(journal)}
+                          className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+                        >
+                          [edit]
+                        </button>
+                      )}
+                      {/*                    <button
+                        onClick={() => handleDeleteJournal(journal.id)}
+                        className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+                        title="Delete"
+                      >
+                        [delete]
+                      </button>*/}
+                    </div>
+                    {editingId === journal.id ? (
+                      <div className="mb-2 sm:mb-3 space-y-2">
+                        <textarea
+                          aria-label="Edit entry"
+                          value={editText}
+                          onChange={(e) => setEditText(e.target.value)}
+                          rows={6}
+                          className="w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white font-mono text-xs sm:text-sm resize-none"
+                        />
+                        {!journal.clientEncrypted && (
+                          <TagInput
+                            value={editTags}
+                            onChange={setEditTags}
+                            suggestions={tagNames}
+                          />
+                        )}
+                        {editError && (
+                          <div className="text-[#ff006e] text-xs font-mono border border-[#ff006e] px-3 py-2">
+                            {editError}
+                          </div>
+                        )}
+                        <div className="flex gap-3">
+                          <button
+                            type="button"
+                            onClick={() => handleSaveEdit(journal)}
+                            disabled={updateJournal.isPending || !editText.trim()}
+                            className="text-xs text-[#ff006e] hover:text-[#ff0080] font-mono transition disabled:opacity-50"
+                          >
+                            {updateJournal.isPending ? '[saving...]' : '[save]'}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditingId(null)}
+                            disabled={updateJournal.isPending}
+                            className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+                          >
+                            [cancel]
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="mb-2 sm:mb-3">
+                        {journal.clientEncrypted ? (
+                          <PrivateEntryText entry={journal.entry} prompt={journal.prompt} />
+                        ) : (
+                          <>
+                            {journal.prompt && (
+                              <p className="text-xs text-white/40 font-mono mb-1 sm:mb-2">{`> ${journal.prompt}`}</p>
+                            )}
+                            <p className="text-xs sm:text-sm text-white/80 whitespace-pre-wrap leading-relaxed font-mono">
+                              {journal.entry}
+                            </p>
+                          </>
+                        )}
+                        {journal.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+                            {journal.tags.map((tag) => (
+                              <button
+                                key={tag.name}
+                                type="button"
+                                onClick={() => tag.id && toggleFilterTag(tag.id)}
+                                className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+                              >
+                                #{tag.name}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {journal.images.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-2 sm:mb-3">
+                        {journal.images.map((url) => (
+                          <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                            <img
+                              src={`${url}?size=thumb`}
+                              alt=""
+                              loading="lazy"
+                              className="h-16 w-16 sm:h-20 sm:w-20 object-cover border border-white/10 hover:border-[#ff006e] transition"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {journal.bottleOpen && (
+                      <button
+                        onClick={() => router.push(`/bottle/${journal.bottleOpen?.bottle.id}`)}
+                        className="text-xs text-[#ff006e] hover:text-[#ff0080] font-mono transition"
+                      >
+                        {`> ${journal.bottleOpen.bottle.name}`}
+                      </button>
+                    )}
                   </div>
-                  <div className="mb-2 sm:mb-3">
-                    <p className="text-xs sm:text-sm text-white/80 whitespace-pre-wrap leading-relaxed font-mono">
-                      {journal.entry}
-                    </p>
+                ))}
+                {hasNextPage && (
+                  <div ref={setSentinel} className="text-center">
+                    {isFetchNextPageError ? (
+                      <button
+                        type="button"
+                        onClick={() => fetchNextPage()}
+                        className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+                      >
+                        [retry]
+                      </button>
+                    ) : (
+                      <p className="text-white/40 font-mono text-xs sm:text-sm">loading...</p>
+                    )}
                   </div>
-                  {journal.bottleOpen && (
-                    <button
-                      onClick={() => router.push(`/bottle/${journal.bottleOpen?.bottle.id}`)}
-                      className="text-xs text-[#ff006e] hover:text-[#ff0080] font-mono transition"
-                    >
-                      {`> ${journal.bottleOpen.bottle.name}`}
-                    </button>
-                  )}
-                </div>
-              ))}
-            </div>
-          )}
+                )}
+              </div>
+            )}
+          </JournalSearch>
         </div>
       </main>
     </div>
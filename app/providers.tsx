@@ -4,7 +4,8 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { httpBatchLink } from '@trpc/client'
 import { useState } from 'react'
 import { AuthProvider } from '@/lib/auth-context'
-import { api } from '@/lib/trpc/client'
+import { PrivateJournalProvider } from '@/lib/private-journal-context'
+import { api, trpcHeaders } from '@/lib/trpc/client'
 
 export function Providers({ children }: { children: React.ReactNode }) {
   // Create query client with sensible defaults
@@ -26,6 +27,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
       links: [
         httpBatchLink({
           url: '/api/trpc',
+          headers: trpcHeaders,
           // Cookies are sent automatically with fetch
           fetch(url, options) {
             return fetch(url, {
@@ -41,7 +43,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <api.Provider client={trpcClient} queryClient={queryClient}>
       <QueryClientProvider client={queryClient}>
-        <AuthProvider>{children}</AuthProvider>
+        <AuthProvider>
+          <PrivateJournalProvider>{children}</PrivateJournalProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </api.Provider>
   )
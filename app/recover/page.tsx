@@ -0,0 +1,150 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { api } from '@/lib/trpc/client'
+
+export default function RecoverPage() {
+  const [email, setEmail] = useState('')
+  const [recoveryCode, setRecoveryCode] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [twoFactorCode, setTwoFactorCode] = useState('')
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false)
+  const [error, setError] = useState('')
+  const router = useRouter()
+
+  const recoverMutation = api.auth.recover.useMutation({
+    onSuccess: (data) => {
+      if (!data.success) {
+        // Recovery code was right, ask for the authenticator code next
+        setNeedsTwoFactor(true)
+        return
+      }
+      // Full reload so the auth context picks up the new session cookie
+      window.location.href = '/'
+    },
+    onError: (error) => {
+      setError(error.message)
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    recoverMutation.mutate({
+      email,
+      recoveryCode,
+      newPassword,
+      twoFactorCode: needsTwoFactor ? twoFactorCode : undefined,
+    })
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 bg-black">
+      <div className="max-w-sm w-full space-y-8">
+        <div>
+          <h2 className="text-xl text-center text-[#ff006e] font-mono tracking-wider">
+            {'> RECOVER'}
+          </h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {error && (
+            <div className="text-[#ff006e] text-sm font-mono text-center border border-[#ff006e] px-4 py-2">
+              ERROR: {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="email" className="block text-sm text-white/60 font-mono mb-2">
+                email:
+              </label>
+              <input
+                id="email"
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+                placeholder="user@domain.com"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="recoveryCode" className="block text-sm text-white/60 font-mono mb-2">
+                recovery code:
+              </label>
+              <input
+                id="recoveryCode"
+                type="text"
+                required
+                autoComplete="off"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+                placeholder="xxxx-xxxx-xxxx"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="newPassword" className="block text-sm text-white/60 font-mono mb-2">
+                new password:
+              </label>
+              <input
+                id="newPassword"
+                type="password"
+                required
+                minLength={8}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+                placeholder="********"
+              />
+              <p className="mt-1 text-xs text-white/40 font-mono">min 8 chars</p>
+            </div>
+
+            {needsTwoFactor && (
+              <div>
+                <label
+                  htmlFor="twoFactorCode"
+                  className="block text-sm text-white/60 font-mono mb-2"
+                >
+                  2fa code:
+                </label>
+                <input
+                  id="twoFactorCode"
+                  type="text"
+                  required
+                  autoComplete="one-time-code"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+                  placeholder="123456 or backup code"
+                />
+              </div>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={recoverMutation.isPending}
+            className="w-full py-2 text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+          >
+            {recoverMutation.isPending ? 'LOADING...' : 'RESET'}
+          </button>
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => router.push('/login')}
+              className="text-sm text-white/50 hover:text-[#ff006e] font-mono transition"
+            >
+              {'< back to login'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
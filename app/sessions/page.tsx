@@ -0,0 +1,126 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useEffect } from 'react'
+import { useAuth } from '@/lib/auth-context'
+import { api } from '@/lib/trpc/client'
+
+export default function SessionsPage() {
+  const { user, isLoading } = useAuth()
+  const router = useRouter()
+  const utils = api.useUtils()
+
+  const {
+    data,
+    isLoading: loadingSessions,
+    error,
+  } = api.sessions.list.useQuery(undefined, {
+    enabled: !!user,
+  })
+
+  const revoke = api.sessions.revoke.useMutation({
+    onSuccess: (result) => {
+      if (result.current) {
+        // Full reload so the auth context forgets this device
+        window.location.href = '/login'
+        return
+      }
+      utils.sessions.list.invalidate()
+    },
+  })
+
+  const revokeAll = api.sessions.revokeAll.useMutation({
+    onSuccess: () => {
+      window.location.href = '/login'
+    },
+  })
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push('/login')
+    }
+  }, [user, isLoading, router])
+
+  if (isLoading || !user || loadingSessions) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <p className="text-white/50 font-mono">loading...</p>
+      </div>
+    )
+  }
+
+  const sessions = data?.sessions || []
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleString('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <header className="border-b border-white/10">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 py-3 sm:py-4 flex justify-between items-center">
+          <h1 className="text-base sm:text-lg text-[#ff006e] font-mono tracking-wider">SESSIONS</h1>
+          <button
+            onClick={() => router.push('/settings')}
+            className="text-white/60 hover:text-[#ff006e] transition text-xs sm:text-sm font-mono whitespace-nowrap"
+          >
+            {`< back`}
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> DEVICES`}</h2>
+
+        {error && (
+          <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2 mb-4">
+            {error.message}
+          </div>
+        )}
+
+        {sessions.length === 0 ? (
+          <p className="text-white/40 font-mono text-xs sm:text-sm">no active sessions.</p>
+        ) : (
+          <div className="space-y-3 sm:space-y-4">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className="border border-white/10 p-3 sm:p-4 flex flex-col sm:flex-row sm:justify-between sm:items-start gap-3"
+              >
+                <div className="text-xs text-white/50 font-mono space-y-1">
+                  <p className="text-sm text-white/80">
+                    {session.device}
+                    {session.current && <span className="text-[#ff006e]"> (this device)</span>}
+                  </p>
+                  <p>ip: {session.ipAddress || 'unknown'}</p>
+                  <p>last seen: {formatDate(session.lastSeenAt)}</p>
+                  <p>signed in: {formatDate(session.createdAt)}</p>
+                </div>
+                <button
+                  onClick={() => revoke.mutate({ id: session.id })}
+                  disabled={revoke.isPending}
+                  className="px-3 py-1 text-xs text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition font-mono self-start whitespace-nowrap disabled:opacity-50"
+                >
+                  [log out]
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={() => revokeAll.mutate()}
+          disabled={revokeAll.isPending}
+          className="mt-8 w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+        >
+          {revokeAll.isPending ? 'LOGGING OUT...' : 'LOG OUT EVERYWHERE'}
+        </button>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/trpc/client'
+
+const inputClass =
+  'block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white font-mono'
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+/**
+ * Settings section for when a new day starts, which resets the one-bottle-per-day limit
+ */
+export function DaySettings() {
+  const utils = api.useUtils()
+  const { data } = api.users.daySettings.useQuery()
+
+  const [timeZone, setTimeZone] = useState('UTC')
+  const [dayRolloverHour, setDayRolloverHour] = useState(0)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (data) {
+      setTimeZone(data.timeZone)
+      setDayRolloverHour(data.dayRolloverHour)
+    }
+  }, [data])
+
+  const update = api.users.updateDaySettings.useMutation({
+    onSuccess: () => {
+      setMessage('saved')
+      utils.users.daySettings.invalidate()
+    },
+    onError: (error) => {
+      setMessage(error.message)
+    },
+  })
+
+  const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  // The saved zone stays selectable even if this browser doesn't list it
+  const timeZones = Array.from(new Set(['UTC', timeZone, ...Intl.supportedValuesOf('timeZone')]))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage('')
+    update.mutate({ timeZone, dayRolloverHour })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+      <p className="text-xs sm:text-sm text-white/40 font-mono">
+        a new day, and a new bottle, starts at this hour in your time zone.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+        <select
+          aria-label="Time zone"
+          value={timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+          className={inputClass}
+        >
+          {timeZones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="New day starts at"
+          value={dayRolloverHour}
+          onChange={(e) => setDayRolloverHour(Number(e.target.value))}
+          className={`${inputClass} sm:w-40`}
+        >
+          {HOURS.map((hour) => (
+            <option key={hour} value={hour}>
+              {`${String(hour).padStart(2, '0')}:00`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {timeZone !== deviceTimeZone && (
+        <button
+          type="button"
+          onClick={() => setTimeZone(deviceTimeZone)}
+          className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+        >
+          [use this device's zone: {deviceTimeZone}]
+        </button>
+      )}
+
+      {message && (
+        <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+          {message}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={update.isPending}
+        className="block w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+      >
+        {update.isPending ? 'SAVING...' : 'SAVE'}
+      </button>
+    </form>
+  )
+}
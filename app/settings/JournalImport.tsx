@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { apiFetch } from '@/lib/auth-context'
+import { MAX_JOURNAL_IMPORT_SIZE } from '@/lib/schemas'
+
+const buttonClass =
+  'w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono'
+
+const PREVIEW_ROWS = 50
+
+interface ImportReport {
+  dryRun: boolean
+  imported: number
+  newEntries: number
+  duplicates: number
+  entries: { date: string; source: string; preview: string; duplicate: boolean }[]
+  errors: { file: string; error: string }[]
+}
+
+/**
+ * Settings section for importing older journals
+ * Files are previewed with a dry run first, then imported with the same selection
+ */
+export function JournalImport() {
+  const [files, setFiles] = useState<{ name: string; content: string }[]>([])
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleFiles = async (list: FileList | null) => {
+    setReport(null)
+    setMessage('')
+    setFiles(
+      await Promise.all(
+        Array.from(list ?? []).map(async (file) => ({
+          name: file.name,
+          content: await file.text(),
+        })),
+      ),
+    )
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    setMessage('')
+
+    if (files.reduce((total, file) => total + file.content.length, 0) > MAX_JOURNAL_IMPORT_SIZE) {
+      setMessage('Import at most 25MB at once')
+      return
+    }
+    setLoading(true)
+
+    try {
+      const res = await apiFetch('/api/journal/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ files, dryRun }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        setMessage(data.details?.[0]?.message || data.error || 'Import failed')
+        return
+      }
+
+      setReport(data)
+      if (!dryRun) {
+        setFiles([])
+        setMessage(`imported ${data.imported} entries.`)
+      }
+    } catch {
+      setMessage('Import failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <p className="text-xs sm:text-sm text-white/40 font-mono">
+        markdown or text files named by date (2021-03-04.md) or with date headings, or a day one
+        json export. entries already in your journal are skipped.
+      </p>
+      <input
+        type="file"
+        multiple
+        accept=".md,.markdown,.txt,.json"
+        aria-label="Journal files"
+        onChange={(e) => handleFiles(e.target.files)}
+        className="block w-full text-xs sm:text-sm text-white/60 font-mono file:mr-3 file:px-3 file:py-1 file:border file:border-white/20 file:bg-black file:text-white/60 file:font-mono"
+      />
+
+      {message && (
+        <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+          {message}
+        </div>
+      )}
+
+      {report?.dryRun && (
+        <div className="space-y-2 text-xs font-mono">
+          <p className="text-white/80">
+            {report.newEntries} new entries, {report.duplicates} duplicates skipped
+          </p>
+          {report.errors.map((error) => (
+            <p key={error.file} className="text-[#ff006e]">
+              {error.file}: {error.error}
+            </p>
+          ))}
+          <ul className="space-y-1 max-h-64 overflow-y-auto border border-white/10 p-3">
+            {report.entries.slice(0, PREVIEW_ROWS).map((entry) => (
+              <li
+                key={`${entry.source}-${entry.date}-${entry.preview}`}
+                className={entry.duplicate ? 'text-white/30 line-through' : 'text-white/60'}
+              >
+                {new Date(entry.date).toLocaleDateString('en-US', {
+                  year: 'numeric',
+                  month: '2-digit',
+                  day: '2-digit',
+                })}{' '}
+                / {entry.preview}
+              </li>
+            ))}
+            {report.entries.length > PREVIEW_ROWS && (
+              <li className="text-white/30">...and {report.entries.length - PREVIEW_ROWS} more</li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button
+          type="button"
+          onClick={() => runImport(true)}
+          disabled={loading || files.length === 0}
+          className="w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition disabled:opacity-50 font-mono"
+        >
+          {loading ? 'CHECKING...' : 'PREVIEW'}
+        </button>
+        {report?.dryRun && report.newEntries > 0 && (
+          <button
+            type="button"
+            onClick={() => runImport(false)}
+            disabled={loading || files.length === 0}
+            className={buttonClass}
+          >
+            {loading ? 'IMPORTING...' : `IMPORT ${report.newEntries} ENTRIES`}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createPasskey, getPasskeyAssertion, passkeysSupported } from '@/lib/passkey-client'
+import { api } from '@/lib/trpc/client'
+
+/**
+ * Settings section for passkeys
+ * Adding one takes two prompts: create the passkey, then use it once so its PRF
+ * output can wrap the journal key
+ */
+export function PasskeySettings() {
+  const utils = api.useUtils()
+  const { data } = api.passkeys.list.useQuery()
+
+  const [supported, setSupported] = useState(true)
+  const [name, setName] = useState('')
+  const [message, setMessage] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const registrationOptions = api.passkeys.registrationOptions.useMutation()
+  const register = api.passkeys.register.useMutation()
+  const unlockOptions = api.passkeys.unlockOptions.useMutation()
+  const enableUnlock = api.passkeys.enableUnlock.useMutation()
+
+  const remove = api.passkeys.remove.useMutation({
+    onSuccess: () => {
+      utils.passkeys.list.invalidate()
+    },
+    onError: (error) => {
+      setMessage(error.message)
+    },
+  })
+
+  useEffect(() => {
+    setSupported(passkeysSupported())
+  }, [])
+
+  // Let the passkey unwrap the journal key; without PRF it can't sign in
+  const setUpUnlock = async (id: number) => {
+    const { challengeId, options } = await unlockOptions.mutateAsync({ id })
+    const { response, prfOutput } = await getPasskeyAssertion(options)
+
+    if (!prfOutput) {
+      throw new Error('this device does not support passkey encryption (prf)')
+    }
+
+    await enableUnlock.mutateAsync({ challengeId, response, prfOutput })
+  }
+
+  const handleAdd = async () => {
+    setMessage('')
+    setBusy(true)
+
+    try {
+      const { challengeId, options } = await registrationOptions.mutateAsync()
+      const response = await createPasskey(options)
+      const { id } = await register.mutateAsync({
+        challengeId,
+        response,
+        name: name.trim() || undefined,
+      })
+      setName('')
+
+      await setUpUnlock(id)
+      setMessage('passkey added')
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to add passkey')
+    } finally {
+      setBusy(false)
+      utils.passkeys.list.invalidate()
+    }
+  }
+
+  const handleRetryUnlock = async (id: number) => {
+    setMessage('')
+    setBusy(true)
+
+    try {
+      await setUpUnlock(id)
+      setMessage('passkey can now sign in')
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to set up passkey')
+    } finally {
+      setBusy(false)
+      utils.passkeys.list.invalidate()
+    }
+  }
+
+  if (!supported) {
+    return (
+      <p className="text-xs sm:text-sm text-white/40 font-mono">
+        passkeys are not supported in this browser.
+      </p>
+    )
+  }
+
+  const passkeys = data?.passkeys || []
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    })
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <p className="text-xs sm:text-sm text-white/40 font-mono">
+        sign in with face id, fingerprint or a security key instead of typing your password.
+      </p>
+
+      {passkeys.length > 0 && (
+        <ul className="space-y-2">
+          {passkeys.map((passkey) => (
+            <li
+              key={passkey.id}
+              className="border border-white/10 p-3 text-xs font-mono flex flex-col sm:flex-row sm:justify-between gap-2"
+            >
+              <div className="space-y-1">
+                <p className="text-sm text-white/80">{passkey.name}</p>
+                <p className="text-white/40">
+                  added {formatDate(passkey.createdAt)}
+                  {passkey.lastUsedAt && ` / last used ${formatDate(passkey.lastUsedAt)}`}
+                </p>
+                {!passkey.canUnlock && (
+                  <p className="text-[#ff006e]">can't unlock the journal yet</p>
+                )}
+              </div>
+              <div className="flex gap-3 self-start">
+                {!passkey.canUnlock && (
+                  <button
+                    type="button"
+                    onClick={() => handleRetryUnlock(passkey.id)}
+                    disabled={busy}
+                    className="text-white/40 hover:text-[#ff006e] disabled:opacity-50"
+                  >
+                    [set up]
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => remove.mutate({ id: passkey.id })}
+                  disabled={remove.isPending}
+                  className="text-white/40 hover:text-[#ff006e] disabled:opacity-50"
+                >
+                  [remove]
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+        placeholder="name (optional, e.g. my phone)"
+      />
+
+      {message && (
+        <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+          {message}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={busy}
+        className="w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+      >
+        {busy ? 'WAITING FOR PASSKEY...' : 'ADD PASSKEY'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useState } from 'react'
+import { usePrivateJournal } from '@/lib/private-journal-context'
+
+const inputClass =
+  'block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white font-mono'
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+/**
+ * Checks a new passphrase and its confirmation
+ *
+ * @returns An error message, or null when the passphrase can be used
+ */
+function passphraseError(passphrase: string, confirmPassphrase: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+  }
+  if (passphrase !== confirmPassphrase) {
+    return 'Passphrases do not match'
+  }
+  return null
+}
+
+/**
+ * Settings section for private mode, where entries are encrypted in the browser
+ */
+export function PrivateJournalSettings() {
+  const { available, key, lock, setup } = usePrivateJournal()
+
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [acknowledged, setAcknowledged] = useState(false)
+  const [message, setMessage] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  if (available) {
+    return (
+      <div className="space-y-3 sm:space-y-4">
+        <p className="text-xs sm:text-sm text-white/40 font-mono">
+          private mode is on. choose it when writing an entry. the passphrase can be changed here,
+          but a forgotten one can't be recovered.
+        </p>
+        {key && (
+          <button
+            type="button"
+            onClick={lock}
+            className="px-3 py-1 text-xs text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition font-mono"
+          >
+            [lock private entries]
+          </button>
+        )}
+        <ChangePassphraseForm />
+      </div>
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage('')
+
+    const error = passphraseError(passphrase, confirmPassphrase)
+    if (error) {
+      setMessage(error)
+      return
+    }
+    if (!acknowledged) {
+      setMessage('Confirm that a lost passphrase means lost private entries')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await setup(passphrase)
+      setPassphrase('')
+      setConfirmPassphrase('')
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+      <p className="text-xs sm:text-sm text-white/40 font-mono">
+        private entries are encrypted in this browser with a passphrase the server never sees. only
+        a mood you write yourself is sent to pick a bottle. they can't be searched, tagged or have
+        photos, and if the passphrase is lost, so are they.
+      </p>
+
+      <input
+        type="password"
+        aria-label="Private mode passphrase"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        autoComplete="new-password"
+        className={inputClass}
+        placeholder="passphrase"
+      />
+      <input
+        type="password"
+        aria-label="Confirm private mode passphrase"
+        value={confirmPassphrase}
+        onChange={(e) => setConfirmPassphrase(e.target.value)}
+        autoComplete="new-password"
+        className={inputClass}
+        placeholder="confirm passphrase"
+      />
+
+      <label className="flex items-start gap-2 text-xs sm:text-sm text-white/60 font-mono">
+        <input
+          type="checkbox"
+          checked={acknowledged}
+          onChange={(e) => setAcknowledged(e.target.checked)}
+          className="accent-[#ff006e] mt-0.5"
+        />
+        i understand nobody can reset this passphrase. if i forget it, my private entries are gone
+        for good.
+      </label>
+
+      {message && (
+        <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+          {message}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={saving || !acknowledged}
+        className="block w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+      >
+        {saving ? 'TURNING ON...' : 'TURN ON'}
+      </button>
+    </form>
+  )
+}
+
+/**
+ * Re-encrypts every private entry in this browser under a new passphrase
+ */
+function ChangePassphraseForm() {
+  const { changePassphrase } = usePrivateJournal()
+
+  const [currentPassphrase, setCurrentPassphrase] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [message, setMessage] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage('')
+
+    const error = passphraseError(passphrase, confirmPassphrase)
+    if (error) {
+      setMessage(error)
+      return
+    }
+
+    setSaving(true)
+    try {
+      if (await changePassphrase(currentPassphrase, passphrase)) {
+        setCurrentPassphrase('')
+        setPassphrase('')
+        setConfirmPassphrase('')
+        setMessage('passphrase changed')
+      } else {
+        setMessage('wrong passphrase')
+      }
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+      <input
+        type="password"
+        aria-label="Current private mode passphrase"
+        value={currentPassphrase}
+        onChange={(e) => setCurrentPassphrase(e.target.value)}
+        autoComplete="current-password"
+        className={inputClass}
+        placeholder="current passphrase"
+      />
+      <input
+        type="password"
+        aria-label="New private mode passphrase"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        autoComplete="new-password"
+        className={inputClass}
+        placeholder="new passphrase"
+      />
+      <input
+        type="password"
+        aria-label="Confirm new private mode passphrase"
+        value={confirmPassphrase}
+        onChange={(e) => setConfirmPassphrase(e.target.value)}
+        autoComplete="new-password"
+        className={inputClass}
+        placeholder="confirm new passphrase"
+      />
+
+      {message && (
+        <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+          {message}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={saving || !currentPassphrase}
+        className="block w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+      >
+        {saving ? 'RE-ENCRYPTING...' : 'CHANGE PASSPHRASE'}
+      </button>
+    </form>
+  )
+}
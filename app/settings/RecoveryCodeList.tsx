@@ -0,0 +1,36 @@
+'use client'
+
+interface RecoveryCodeListProps {
+  codes: string[]
+  onDone: () => void
+  description?: string // Replaces the default recovery code explanation
+}
+
+/**
+ * Shows freshly generated recovery codes once
+ * The codes are never stored in plaintext, so this is the only chance to save them
+ */
+export function RecoveryCodeList({ codes, onDone, description }: RecoveryCodeListProps) {
+  return (
+    <div className="space-y-4">
+      <p className="text-xs sm:text-sm text-white/60 font-mono">
+        {description ??
+          'save these recovery codes somewhere safe. each one can be used once to reset your password without losing your journal. they will not be shown again.'}
+      </p>
+      <ul className="grid grid-cols-2 gap-2 border border-white/20 p-3 sm:p-4">
+        {codes.map((code) => (
+          <li key={code} className="text-sm text-white/80 font-mono tracking-wider">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={onDone}
+        className="w-full py-2 text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition font-mono"
+      >
+        I SAVED THEM
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+'use client'
+
+import { useState } from 'react'
+import { api } from '@/lib/trpc/client'
+import { RecoveryCodeList } from './RecoveryCodeList'
+
+const inputClass =
+  'block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono'
+const buttonClass =
+  'w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono'
+
+/**
+ * Settings section for TOTP two-factor authentication
+ * Walks through setup (password, scan, confirm code), then shows backup codes once
+ */
+export function TwoFactorSettings() {
+  const utils = api.useUtils()
+  const { data: status } = api.twoFactor.status.useQuery()
+
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [message, setMessage] = useState('')
+  const [pending, setPending] = useState<{ secret: string; otpauthUri: string } | null>(null)
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+
+  const resetForm = () => {
+    setPassword('')
+    setCode('')
+    setMessage('')
+  }
+
+  const onError = (error: { message: string }) => {
+    setMessage(error.message)
+  }
+
+  const beginSetup = api.twoFactor.beginSetup.useMutation({
+    onSuccess: (data) => {
+      resetForm()
+      setPending(data)
+    },
+    onError,
+  })
+
+  const confirmSetup = api.twoFactor.confirmSetup.useMutation({
+    onSuccess: (data) => {
+      resetForm()
+      setPending(null)
+      setBackupCodes(data.backupCodes)
+      utils.twoFactor.status.invalidate()
+    },
+    onError,
+  })
+
+  const regenerateCodes = api.twoFactor.regenerateBackupCodes.useMutation({
+    onSuccess: (data) => {
+      resetForm()
+      setBackupCodes(data.backupCodes)
+      utils.twoFactor.status.invalidate()
+    },
+    onError,
+  })
+
+  const disable = api.twoFactor.disable.useMutation({
+    onSuccess: () => {
+      resetForm()
+      utils.twoFactor.status.invalidate()
+    },
+    onError,
+  })
+
+  const errorBox = message && (
+    <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+      {message}
+    </div>
+  )
+
+  if (backupCodes) {
+    return (
+      <RecoveryCodeList
+        codes={backupCodes}
+        onDone={() => setBackupCodes(null)}
+        description="save these backup codes somewhere safe. each one can be used once instead of an authenticator code if you lose your phone. they will not be shown again."
+      />
+    )
+  }
+
+  // Scan the secret, then confirm with the first code
+  if (pending) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          setMessage('')
+          confirmSetup.mutate({ code })
+        }}
+        className="space-y-3 sm:space-y-4"
+      >
+        <p className="text-xs sm:text-sm text-white/60 font-mono">
+          add this account to your authenticator app, then enter the 6-digit code it shows.
+        </p>
+        <a
+          href={pending.otpauthUri}
+          className="block text-xs sm:text-sm text-[#ff006e] hover:underline font-mono break-all"
+        >
+          [open in authenticator app]
+        </a>
+        <p className="text-xs text-white/40 font-mono">or enter the key manually:</p>
+        <p className="text-sm text-white/80 font-mono tracking-wider break-all border border-white/20 p-3">
+          {pending.secret}
+        </p>
+        <input
+          type="text"
+          required
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className={inputClass}
+          placeholder="123456"
+        />
+
+        {errorBox}
+
+        <div className="flex gap-3">
+          <button type="submit" disabled={confirmSetup.isPending} className={buttonClass}>
+            {confirmSetup.isPending ? 'CHECKING...' : 'ENABLE'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              resetForm()
+              setPending(null)
+            }}
+            className="px-3 py-1 text-xs text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition font-mono"
+          >
+            [cancel]
+          </button>
+        </div>
+      </form>
+    )
+  }
+
+  if (!status?.enabled) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          setMessage('')
+          beginSetup.mutate({ password })
+        }}
+        className="space-y-3 sm:space-y-4"
+      >
+        <p className="text-xs sm:text-sm text-white/40 font-mono">
+          {status?.required
+            ? 'two-factor authentication is required for admin accounts. set it up to get admin access.'
+            : 'off. ask for a code from an authenticator app when logging in.'}
+        </p>
+        <input
+          type="password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClass}
+          placeholder="password"
+        />
+
+        {errorBox}
+
+        <button type="submit" disabled={beginSetup.isPending} className={buttonClass}>
+          {beginSetup.isPending ? 'STARTING...' : 'SET UP 2FA'}
+        </button>
+      </form>
+    )
+  }
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <p className="text-xs sm:text-sm text-white/40 font-mono">
+        on. {status.backupCodesRemaining} unused backup codes left.
+      </p>
+      <input
+        type="text"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className={inputClass}
+        placeholder="authenticator or backup code"
+      />
+      {!status.required && (
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClass}
+          placeholder="password (to turn off)"
+        />
+      )}
+
+      {errorBox}
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button
+          type="button"
+          onClick={() => {
+            setMessage('')
+            regenerateCodes.mutate({ code })
+          }}
+          disabled={regenerateCodes.isPending || !code}
+          className={buttonClass}
+        >
+          {regenerateCodes.isPending ? 'GENERATING...' : 'NEW BACKUP CODES'}
+        </button>
+        {!status.required && (
+          <button
+            type="button"
+            onClick={() => {
+              setMessage('')
+              disable.mutate({ password, code })
+            }}
+            disabled={disable.isPending || !code || !password}
+            className="px-3 py-1 text-xs text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition font-mono disabled:opacity-50"
+          >
+            [turn off]
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { useAuth } from '@/lib/auth-context'
+import { api } from '@/lib/trpc/client'
+import { DaySettings } from './DaySettings'
+import { JournalImport } from './JournalImport'
+import { PasskeySettings } from './PasskeySettings'
+import { PrivateJournalSettings } from './PrivateJournalSettings'
+import { RecoveryCodeList } from './RecoveryCodeList'
+import { TwoFactorSettings } from './TwoFactorSettings'
+
+export default function SettingsPage() {
+  const { user, isLoading } = useAuth()
+  const router = useRouter()
+  const utils = api.useUtils()
+
+  // Change password form state
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [passwordMessage, setPasswordMessage] = useState('')
+
+  // Recovery codes state
+  const [recoveryPassword, setRecoveryPassword] = useState('')
+  const [recoveryMessage, setRecoveryMessage] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const { data: recoveryStatus } = api.auth.recoveryStatus.useQuery(undefined, {
+    enabled: !!user,
+  })
+
+  const changePassword = api.auth.changePassword.useMutation({
+    onSuccess: () => {
+      setPasswordMessage('password changed')
+      setCurrentPassword('')
+      setNewPassword('')
+    },
+    onError: (error) => {
+      setPasswordMessage(error.message)
+    },
+  })
+
+  const regenerateCodes = api.auth.regenerateRecoveryCodes.useMutation({
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes)
+      setRecoveryPassword('')
+      utils.auth.recoveryStatus.invalidate()
+    },
+    onError: (error) => {
+      setRecoveryMessage(error.message)
+    },
+  })
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push('/login')
+    }
+  }, [user, isLoading, router])
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault()
+    setPasswordMessage('')
+    changePassword.mutate({ currentPassword, newPassword })
+  }
+
+  const handleRegenerateCodes = (e: React.FormEvent) => {
+    e.preventDefault()
+    setRecoveryMessage('')
+    regenerateCodes.mutate({ password: recoveryPassword })
+  }
+
+  if (isLoading || !user) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <p className="text-white/50 font-mono">loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <header className="border-b border-white/10">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 py-3 sm:py-4 flex justify-between items-center">
+          <h1 className="text-base sm:text-lg text-[#ff006e] font-mono tracking-wider">SETTINGS</h1>
+          <button
+            onClick={() => router.push('/')}
+            className="text-white/60 hover:text-[#ff006e] transition text-xs sm:text-sm font-mono whitespace-nowrap"
+          >
+            {`< back`}
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 py-8 sm:py-12 space-y-12 sm:space-y-16">
+        {/* Change Password */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> CHANGE_PASSWORD`}</h2>
+
+          <form onSubmit={handleChangePassword} className="space-y-3 sm:space-y-4">
+            <input
+              type="password"
+              required
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+              placeholder="current password"
+            />
+            <input
+              type="password"
+              required
+              minLength={8}
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+              placeholder="new password (min 8 chars)"
+            />
+
+            {passwordMessage && (
+              <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+                {passwordMessage}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={changePassword.isPending}
+              className="w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+            >
+              {changePassword.isPending ? 'SAVING...' : 'CHANGE'}
+            </button>
+          </form>
+        </section>
+
+        {/* Passkeys */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> PASSKEYS`}</h2>
+          <PasskeySettings />
+        </section>
+
+        {/* Two-Factor */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> TWO_FACTOR`}</h2>
+          <TwoFactorSettings />
+        </section>
+
+        {/* Sessions */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> SESSIONS`}</h2>
+          <button
+            onClick={() => router.push('/sessions')}
+            className="px-3 py-1 text-xs text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition font-mono"
+          >
+            [manage devices]
+          </button>
+        </section>
+
+        {/* Journal tags */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> TAGS`}</h2>
+          <button
+            onClick={() => router.push('/tags')}
+            className="px-3 py-1 text-xs text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition font-mono"
+          >
+            [manage tags]
+          </button>
+        </section>
+
+        {/* Day rollover */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> DAY`}</h2>
+          <DaySettings />
+        </section>
+
+        {/* Private mode */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> PRIVATE_MODE`}</h2>
+          <PrivateJournalSettings />
+        </section>
+
+        {/* Export */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> EXPORT`}</h2>
+          <p className="text-xs sm:text-sm text-white/40 font-mono mb-3 sm:mb-4">
+            download your journal, decrypted. the archive includes markdown, json and attached
+            images. private entries stay encrypted.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {(
+              [
+                ['zip', '[archive]'],
+                ['md', '[markdown]'],
+                ['json', '[json]'],
+              ] as const
+            ).map(([format, label]) => (
+              <a
+                key={format}
+                href={`/api/journal/export?format=${format}`}
+                download
+                className="px-3 py-1 text-xs text-white/60 border border-white/20 hover:border-[#ff006e] hover:text-[#ff006e] transition font-mono"
+              >
+                {label}
+              </a>
+            ))}
+          </div>
+        </section>
+
+        {/* Import */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> IMPORT`}</h2>
+          <JournalImport />
+        </section>
+
+        {/* Recovery Codes */}
+        <section>
+          <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> RECOVERY_CODES`}</h2>
+
+          {recoveryCodes ? (
+            <RecoveryCodeList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+          ) : (
+            <form onSubmit={handleRegenerateCodes} className="space-y-3 sm:space-y-4">
+              <p className="text-xs sm:text-sm text-white/40 font-mono">
+                {recoveryStatus?.remaining ?? 0} unused codes left. generating a new set invalidates
+                the old ones.
+              </p>
+              <input
+                type="password"
+                required
+                value={recoveryPassword}
+                onChange={(e) => setRecoveryPassword(e.target.value)}
+                className="block w-full px-3 py-2 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white placeholder-white/30 font-mono"
+                placeholder="password"
+              />
+
+              {recoveryMessage && (
+                <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2">
+                  {recoveryMessage}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={regenerateCodes.isPending}
+                className="w-full sm:w-auto py-2 px-6 text-xs sm:text-sm text-black bg-[#ff006e] hover:bg-[#ff0080] transition disabled:opacity-50 font-mono"
+              >
+                {regenerateCodes.isPending ? 'GENERATING...' : 'NEW CODES'}
+              </button>
+            </form>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { useAuth } from '@/lib/auth-context'
+import { api } from '@/lib/trpc/client'
+
+export default function TagsPage() {
+  const { user, isLoading } = useAuth()
+  const router = useRouter()
+  const utils = api.useUtils()
+
+  const [renamingId, setRenamingId] = useState<number | null>(null)
+  const [renameText, setRenameText] = useState('')
+  const [mergingId, setMergingId] = useState<number | null>(null)
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null)
+  const [message, setMessage] = useState('')
+
+  const {
+    data,
+    isLoading: loadingTags,
+    error,
+  } = api.tags.list.useQuery(undefined, {
+    enabled: !!user,
+  })
+
+  // Entries show tag names, so the journal list changes with the tags
+  const onSuccess = () => {
+    setRenamingId(null)
+    setMergingId(null)
+    utils.tags.list.invalidate()
+    utils.journal.list.invalidate()
+  }
+  const onError = (error: { message: string }) => {
+    setMessage(error.message)
+  }
+
+  const rename = api.tags.rename.useMutation({ onSuccess, onError })
+  const merge = api.tags.merge.useMutation({ onSuccess, onError })
+  const remove = api.tags.delete.useMutation({ onSuccess, onError })
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push('/login')
+    }
+  }, [user, isLoading, router])
+
+  if (isLoading || !user || loadingTags) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <p className="text-white/50 font-mono">loading...</p>
+      </div>
+    )
+  }
+
+  const tags = data?.tags || []
+  const busy = rename.isPending || merge.isPending || remove.isPending
+
+  const startRenaming = (id: number, name: string) => {
+    setMessage('')
+    setMergingId(null)
+    setRenamingId(id)
+    setRenameText(name)
+  }
+
+  const startMerging = (id: number) => {
+    setMessage('')
+    setRenamingId(null)
+    setMergingId(id)
+    setMergeTargetId(tags.find((tag) => tag.id !== id)?.id ?? null)
+  }
+
+  const handleDelete = (id: number, name: string) => {
+    if (!confirm(`Delete #${name}? Entries keep everything else.`)) return
+    setMessage('')
+    remove.mutate({ id })
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <header className="border-b border-white/10">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 py-3 sm:py-4 flex justify-between items-center">
+          <h1 className="text-base sm:text-lg text-[#ff006e] font-mono tracking-wider">TAGS</h1>
+          <button
+            onClick={() => router.push('/settings')}
+            className="text-white/60 hover:text-[#ff006e] transition text-xs sm:text-sm font-mono whitespace-nowrap"
+          >
+            {`< back`}
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <h2 className="text-sm sm:text-base text-white/70 font-mono mb-4 sm:mb-6">{`> TAGS`}</h2>
+
+        {(error || message) && (
+          <div className="text-[#ff006e] text-xs sm:text-sm font-mono border border-[#ff006e] px-3 py-2 mb-4">
+            {error?.message || message}
+          </div>
+        )}
+
+        {tags.length === 0 ? (
+          <p className="text-white/40 font-mono text-xs sm:text-sm">
+            no tags yet. add them when writing an entry.
+          </p>
+        ) : (
+          <div className="space-y-3 sm:space-y-4">
+            {tags.map((tag) => (
+              <div key={tag.id} className="border border-white/10 p-3 sm:p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+                  <p className="text-sm text-white/80 font-mono">
+                    #{tag.name}
+                    <span className="text-xs text-white/40">
+                      {` (${tag.count} ${tag.count === 1 ? 'entry' : 'entries'})`}
+                    </span>
+                  </p>
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={() => startRenaming(tag.id, tag.name)}
+                      disabled={busy}
+                      className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition disabled:opacity-50"
+                    >
+                      [rename]
+                    </button>
+                    {tags.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => startMerging(tag.id)}
+                        disabled={busy}
+                        className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition disabled:opacity-50"
+                      >
+                        [merge]
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(tag.id, tag.name)}
+                      disabled={busy}
+                      className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition disabled:opacity-50"
+                    >
+                      [delete]
+                    </button>
+                  </div>
+                </div>
+
+                {renamingId === tag.id && (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      setMessage('')
+                      rename.mutate({ id: tag.id, name: renameText })
+                    }}
+                    className="flex gap-3 items-center"
+                  >
+                    <input
+                      type="text"
+                      aria-label="New tag name"
+                      value={renameText}
+                      onChange={(e) => setRenameText(e.target.value)}
+                      maxLength={40}
+                      className="flex-1 px-3 py-1 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white font-mono text-xs sm:text-sm"
+                    />
+                    <button
+                      type="submit"
+                      disabled={busy || !renameText.trim()}
+                      className="text-xs text-[#ff006e] hover:text-[#ff0080] font-mono transition disabled:opacity-50"
+                    >
+                      {rename.isPending ? '[saving...]' : '[save]'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setRenamingId(null)}
+                      className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+                    >
+                      [cancel]
+                    </button>
+                  </form>
+                )}
+
+                {mergingId === tag.id && (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      if (mergeTargetId === null) return
+                      setMessage('')
+                      merge.mutate({ sourceId: tag.id, targetId: mergeTargetId })
+                    }}
+                    className="flex gap-3 items-center"
+                  >
+                    <span className="text-xs text-white/40 font-mono whitespace-nowrap">into</span>
+                    <select
+                      aria-label="Merge into tag"
+                      value={mergeTargetId ?? ''}
+                      onChange={(e) => setMergeTargetId(Number(e.target.value))}
+                      className="flex-1 px-3 py-1 border border-white/20 bg-black focus:outline-none focus:border-[#ff006e] text-white font-mono text-xs sm:text-sm"
+                    >
+                      {tags
+                        .filter((other) => other.id !== tag.id)
+                        .map((other) => (
+                          <option key={other.id} value={other.id}>
+                            #{other.name}
+                          </option>
+                        ))}
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={busy || mergeTargetId === null}
+                      className="text-xs text-[#ff006e] hover:text-[#ff0080] font-mono transition disabled:opacity-50"
+                    >
+                      {merge.isPending ? '[merging...]' : '[merge]'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setMergingId(null)}
+                      className="text-xs text-white/40 hover:text-[#ff006e] font-mono transition"
+                    >
+                      [cancel]
+                    </button>
+                  </form>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import type { Prisma, User } from '@prisma/client'
+import { hashPassword, verifyPassword } from './auth'
+import {
+  deriveEncryptionKey,
+  deriveWrappingKey,
+  generateDataKey,
+  generateKeySalt,
+  unwrapDataKey,
+  wrapDataKey,
+} from './encryption-server'
+import { decryptTextServer, encryptTextServer } from './encryption-server-crypto'
+import { prisma } from './prisma'
+import type { SessionUser } from './sessions'
+
+/**
+ * Re-encrypts every journal entry of a user from one key to another
+ * Throws if an entry can't be decrypted with the old key, so the transaction rolls back
+ * instead of leaving that entry under a key nothing derives any more
+ *
+ * @param tx - Transaction client so the rewrite commits or rolls back as a whole
+ * @param userId - Owner of the entries
+ * @param oldKey - Base64 key the entries are currently encrypted with
+ * @param newKey - Base64 key to encrypt the entries with
+ * @returns Number of entries that were re-encrypted
+ */
+export async function reencryptJournalEntries(
+  tx: Prisma.TransactionClient,
+  userId: number,
+  oldKey: string,
+  newKey: string,
+): Promise<number> {
+  // Private entries are encrypted in the browser and don't use the data key
+  const entries = await tx.journalEntry.findMany({
+    where: { userId, clientEncrypted: false },
+    select: { id: true, entry: true },
+  })
+
+  let reencrypted = 0
+
+  for (const entry of entries) {
+    let plaintext: string
+    try {
+      plaintext = decryptTextServer(entry.entry, oldKey)
+    } catch {
+      throw new Error(`Journal entry ${entry.id} is not decryptable with the current key`)
+    }
+
+    await tx.journalEntry.update({
+      where: { id: entry.id },
+      data: { entry: encryptTextServer(plaintext, newKey) },
+    })
+    reencrypted++
+  }
+
+  return reencrypted
+}
+
+/**
+ * Wraps a data key under a password with a fresh per-user salt
+ *
+ * @returns Columns to store on the user
+ */
+export function wrapDataKeyWithPassword(
+  dataKey: string,
+  password: string,
+): { encryptionSalt: string; wrappedDataKey: string } {
+  const encryptionSalt = generateKeySalt()
+  const wrappedDataKey = wrapDataKey(dataKey, deriveWrappingKey(password, encryptionSalt))
+  return { encryptionSalt, wrappedDataKey }
+}
+
+/**
+ * Creates the key material for a new account
+ *
+ * @returns The data key for the cookie plus the columns to store on the user
+ */
+export function createUserKeys(password: string): {
+  dataKey: string
+  encryptionSalt: string
+  wrappedDataKey: string
+} {
+  const dataKey = generateDataKey()
+  return { dataKey, ...wrapDataKeyWithPassword(dataKey, password) }
+}
+
+/**
+ * Unwraps a user's journal data key with their (already verified) password
+ * Accounts still on the legacy password-derived key are migrated to a random data key
+ * and have their entries re-encrypted under it
+ *
+ * @returns Base64 data key to set in the encryptionKey cookie
+ */
+export async function unlockDataKey(
+  user: Pick<User, 'id' | 'encryptionSalt' | 'wrappedDataKey'>,
+  password: string,
+): Promise<string> {
+  if (user.encryptionSalt && user.wrappedDataKey) {
+    return unwrapDataKey(user.wrappedDataKey, deriveWrappingKey(password, user.encryptionSalt))
+  }
+
+  const legacyKey = deriveEncryptionKey(password)
+  const { dataKey, encryptionSalt, wrappedDataKey } = createUserKeys(password)
+
+  const migrated = await prisma
+    .$transaction(
+      async (tx) => {
+        // Claim the migration first; a concurrent login that got here first leaves count 0 and
+        // nothing is re-encrypted twice
+        const { count } = await tx.user.updateMany({
+          where: { id: user.id, wrappedDataKey: null },
+          data: { encryptionSalt, wrappedDataKey },
+        })
+
+        if (count === 0) {
+          return false
+        }
+
+        await reencryptJournalEntries(tx, user.id, legacyKey, dataKey)
+        return true
+      },
+      { timeout: 60_000 },
+    )
+    .catch((error) => {
+      console.error(`Journal key migration for user ${user.id} aborted:`, error)
+      return null
+    })
+
+  if (migrated === null) {
+    // Rolled back, so the account and every entry are still on the legacy key; keep using it
+    // and try again at the next login
+    return legacyKey
+  }
+
+  if (!migrated) {
+    // Use the data key the other request stored
+    const current = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { id: true, encryptionSalt: true, wrappedDataKey: true },
+    })
+    if (!current.encryptionSalt || !current.wrappedDataKey) {
+      throw new Error('Journal key migration did not complete')
+    }
+    return unlockDataKey(current, password)
+  }
+
+  return dataKey
+}
+
+/**
+ * Changes a user's password
+ * The journal data key stays the same and is only re-wrapped under the new password
+ *
+ * @returns The updated user and the data key for the cookie, or an error
+ */
+export async function changePassword(
+  userId: number,
+  currentPassword: string,
+  newPassword: string,
+): Promise<
+  { success: true; user: SessionUser; encryptionKey: string } | { success: false; error: string }
+> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  })
+
+  if (!user) {
+    return { success: false, error: 'User not found' }
+  }
+
+  const isValid = await verifyPassword(currentPassword, user.passwordHash)
+  if (!isValid) {
+    return { success: false, error: 'Current password is incorrect' }
+  }
+
+  const dataKey = await unlockDataKey(user, currentPassword)
+  const passwordHash = await hashPassword(newPassword)
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      passwordHash,
+      ...wrapDataKeyWithPassword(dataKey, newPassword),
+    },
+  })
+
+  return {
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      isAdmin: user.isAdmin,
+      tokenVersion: user.tokenVersion,
+    },
+    encryptionKey: dataKey,
+  }
+}
@@ -0,0 +1,78 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import type { AuditAction, ListAuditEventsInput } from './schemas'
+import type { RequestMeta } from './sessions'
+
+/**
+ * Security audit log
+ * Records who did what for sensitive actions (sign-ins, bottles, image access, deletions).
+ * Metadata is limited to flat primitive values and must never contain journal content,
+ * only IDs and small labels
+ */
+
+export interface AuditEventInput {
+  action: AuditAction
+  actorId: number | null
+  target?: { type: string; id: string | number }
+  metadata?: Record<string, string | number | boolean | null>
+  meta?: RequestMeta // Request the action came from, for IP and user agent
+}
+
+/**
+ * Writes an audit event
+ * Never throws: a failing audit write is logged but doesn't break the action itself
+ */
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        action: event.action,
+        actorId: event.actorId,
+        targetType: event.target?.type,
+        targetId: event.target ? String(event.target.id) : undefined,
+        metadata: event.metadata,
+        ipAddress: event.meta?.ipAddress,
+        userAgent: event.meta?.userAgent,
+      },
+    })
+  } catch (error) {
+    console.error('Audit log error:', error)
+  }
+}
+
+/**
+ * Lists audit events, newest first
+ *
+ * @returns One page of events and the cursor for the next page (null on the last page)
+ */
+export async function listAuditEvents(filter: ListAuditEventsInput) {
+  const where: Prisma.AuditEventWhereInput = {
+    actorId: filter.actorId,
+    action: filter.action,
+    createdAt: filter.from || filter.to ? { gte: filter.from, lte: filter.to } : undefined,
+  }
+
+  const events = await prisma.auditEvent.findMany({
+    where,
+    include: {
+      actor: {
+        select: { id: true, email: true },
+      },
+    },
+    orderBy: { id: 'desc' },
+    take: filter.limit + 1,
+    ...(filter.cursor ? { cursor: { id: filter.cursor }, skip: 1 } : {}),
+  })
+
+  const hasMore = events.length > filter.limit
+  const page = hasMore ? events.slice(0, filter.limit) : events
+
+  return {
+    events: page.map((event) => ({
+      ...event,
+      // Always written from AuditEventInput.metadata, so flat
+      metadata: event.metadata as AuditEventInput['metadata'] | null,
+    })),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  }
+}
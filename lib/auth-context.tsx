@@ -1,19 +1,55 @@
 'use client'
 
 import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { CSRF_HEADER, readCsrfToken } from './csrf'
 
 interface User {
   email: string
   isAdmin: boolean
 }
 
+interface LoginResult {
+  twoFactorSetupRequired: boolean // Admin must enable 2FA before getting admin access
+}
+
 interface AuthContextType {
   user: User | null
-  login: (email: string, password: string) => Promise<void>
+  login: (email: string, password: string, twoFactorCode?: string) => Promise<LoginResult>
   logout: () => Promise<void>
   isLoading: boolean
 }
 
+/**
+ * Error thrown by login, carrying the server's error code when there is one
+ * (e.g. LOGIN_LOCKED with retryAfter seconds after too many failed attempts, or
+ * TWO_FACTOR_REQUIRED when the password was right but a code is needed)
+ */
+export class LoginError extends Error {
+  code?: string
+  retryAfter?: number
+
+  constructor(message: string, code?: string, retryAfter?: number) {
+    super(message)
+    this.name = 'LoginError'
+    this.code = code
+    this.retryAfter = retryAfter
+  }
+}
+
+/**
+ * fetch for our REST API: sends the auth cookies and the CSRF token header that
+ * cookie-authenticated mutations require
+ */
+export function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers)
+  const csrfToken = readCsrfToken()
+  if (csrfToken) {
+    headers.set(CSRF_HEADER, csrfToken)
+  }
+
+  return fetch(input, { ...init, headers, credentials: 'include' })
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
@@ -25,9 +61,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // The cookie will be sent automatically
     const checkAuth = async () => {
       try {
-        const res = await fetch('/api/auth/me', {
-          credentials: 'include',
-        })
+        const res = await apiFetch('/api/auth/me')
 
         if (res.ok) {
           const data = await res.json()
@@ -44,29 +78,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkAuth()
   }, [])
 
-  const login = useCallback(async (email: string, password: string) => {
-    const res = await fetch('/api/auth/login', {
+  const login = useCallback(async (email: string, password: string, twoFactorCode?: string) => {
+    const res = await apiFetch('/api/auth/login', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, password }),
-      credentials: 'include', // Important: include cookies
+      body: JSON.stringify({ email, password, twoFactorCode }),
     })
 
     if (!res.ok) {
       const error = await res.json()
-      throw new Error(error.error || 'Login failed')
+      throw new LoginError(error.error || 'Login failed', error.code, error.retryAfter)
     }
 
     const data = await res.json()
     setUser({ email: data.email, isAdmin: data.isAdmin })
+    return { twoFactorSetupRequired: !!data.twoFactorSetupRequired }
   }, [])
 
   const logout = useCallback(async () => {
     try {
-      await fetch('/api/auth/logout', {
-        method: 'POST',
-        credentials: 'include',
-      })
+      await apiFetch('/api/auth/logout', { method: 'POST' })
     } catch (error) {
       console.error('Logout failed:', error)
     }
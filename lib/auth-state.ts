@@ -0,0 +1,76 @@
+import type { JWTPayload } from './auth'
+import { prisma } from './prisma'
+import { revokeAllSessions } from './sessions'
+
+/**
+ * Per-request account checks
+ * A JWT is signed with the user's token version; bumping User.tokenVersion invalidates
+ * every token issued before. Role and existence are read from the database rather than
+ * trusted from the token, through a short in-memory cache so most requests skip the query
+ *
+ * The cache is per server instance: changes made through bumpTokenVersion apply at once
+ * here and within AUTH_STATE_CACHE_MS on other instances
+ */
+
+const AUTH_STATE_CACHE_MS = Number(process.env.AUTH_STATE_CACHE_MS) || 10 * 1000
+
+interface AuthState {
+  tokenVersion: number
+  isAdmin: boolean
+}
+
+// null = the user no longer exists
+const cache = new Map<number, { state: AuthState | null; expiresAt: number }>()
+
+async function getAuthState(userId: number): Promise<AuthState | null> {
+  const cached = cache.get(userId)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.state
+  }
+
+  const state = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { tokenVersion: true, isAdmin: true },
+  })
+
+  cache.set(userId, { state, expiresAt: Date.now() + AUTH_STATE_CACHE_MS })
+
+  return state
+}
+
+/**
+ * Checks that a token's user still exists and the token hasn't been invalidated
+ *
+ * @returns The user's current admin flag, or null if the token must be rejected
+ */
+export async function checkTokenVersion(payload: JWTPayload): Promise<{ isAdmin: boolean } | null> {
+  const state = await getAuthState(payload.userId)
+
+  // Tokens issued before token versions existed count as version 0
+  if (!state || state.tokenVersion !== (payload.tokenVersion ?? 0)) {
+    return null
+  }
+
+  return { isAdmin: state.isAdmin }
+}
+
+/**
+ * Drops a user's cached state so the next request reads it from the database
+ */
+export function invalidateAuthState(userId: number): void {
+  cache.delete(userId)
+}
+
+/**
+ * Invalidates all of a user's tokens and sessions, e.g. after a role change
+ * Every device has to log in again and gets a token with the new claims
+ */
+export async function bumpTokenVersion(userId: number): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { tokenVersion: { increment: 1 } },
+  })
+  await revokeAllSessions(userId)
+
+  invalidateAuthState(userId)
+}
@@ -11,6 +11,10 @@ export interface JWTPayload {
   userId: number
   email: string
   isAdmin: boolean
+  sessionId: string
+  tokenVersion?: number // User.tokenVersion when issued; missing on tokens from before versions
+  twoFactor?: boolean // Signed in with a second factor
+  exp?: number // Expiry in seconds since epoch, set when signing
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -21,9 +25,13 @@ export async function verifyPassword(password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword)
 }
 
-export function generateToken(userId: number, email: string, isAdmin: boolean): string {
-  return jwt.sign({ userId, email, isAdmin } as JWTPayload, JWT_SECRET, {
-    expiresIn: '30d',
+/**
+ * Signs a token; use the session service in lib/sessions.ts rather than calling this directly
+ * so lifetimes and cookies stay consistent
+ */
+export function generateToken(payload: Omit<JWTPayload, 'exp'>, expiresInSeconds: number): string {
+  return jwt.sign(payload, JWT_SECRET, {
+    expiresIn: expiresInSeconds,
   })
 }
 
@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest'
+import { getDailyWindow, getDayNumber } from './daily-window'
+
+vi.mock('./prisma', () => ({ prisma: {} }))
+
+const stockholm = { timeZone: 'Europe/Stockholm', dayRolloverHour: 4 }
+const DAY_MS = 24 * 60 * 60 * 1000
+const dayOf = (date: string) => Date.parse(`${date}T00:00:00Z`) / DAY_MS
+
+describe('getDayNumber', () => {
+  it('counts hours before the rollover toward the previous local date', () => {
+    // 03:30 and 04:30 in Stockholm (UTC+2)
+    expect(getDayNumber(stockholm, new Date('2024-06-01T01:30:00Z'))).toBe(dayOf('2024-05-31'))
+    expect(getDayNumber(stockholm, new Date('2024-06-01T02:30:00Z'))).toBe(dayOf('2024-06-01'))
+  })
+
+  it('uses the user time zone, not the server one', () => {
+    const tokyo = { timeZone: 'Asia/Tokyo', dayRolloverHour: 0 }
+    // 23:30 UTC is already the next morning in Tokyo
+    expect(getDayNumber(tokyo, new Date('2024-06-01T23:30:00Z'))).toBe(dayOf('2024-06-02'))
+  })
+
+  it('numbers the days around a DST change consecutively', () => {
+    const before = getDayNumber(stockholm, new Date('2024-03-30T12:00:00Z'))
+    const after = getDayNumber(stockholm, new Date('2024-03-31T12:00:00Z'))
+    expect(after - before).toBe(1)
+
+    const { start, end } = getDailyWindow(stockholm, new Date('2024-03-31T12:00:00Z'))
+    expect(getDayNumber(stockholm, start)).toBe(after)
+    expect(getDayNumber(stockholm, end)).toBe(after + 1)
+  })
+})
@@ -0,0 +1,91 @@
+import { prisma } from './prisma'
+
+/**
+ * The viewer's "day", for the one-bottle-per-day limit and the writing streak
+ * Days are counted in the user's own time zone and start at their rollover hour
+ * (e.g. 04:00, so a late night still belongs to the day before), not at server midnight
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface DaySettings {
+  timeZone: string // IANA zone, e.g. "Europe/Stockholm"
+  dayRolloverHour: number // Local hour (0-23) a new day starts
+}
+
+/**
+ * Wall-clock time in a zone, written as if it were a UTC timestamp
+ */
+function wallClock(instant: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)]),
+  )
+
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+}
+
+/**
+ * The instant a wall-clock time in a zone happens
+ * Times skipped by a DST jump resolve to just after it
+ */
+function fromWallClock(wall: number, timeZone: string): Date {
+  const offset = wallClock(wall, timeZone) - wall
+  const instant = wall - offset
+  // The offset at the answer can differ from the guess near a DST change
+  const actualOffset = wallClock(instant, timeZone) - instant
+
+  return new Date(wall - actualOffset)
+}
+
+/**
+ * The day an instant belongs to, as a count of days since 1970-01-01
+ * Consecutive days get consecutive numbers, however long DST makes them
+ */
+export function getDayNumber(settings: DaySettings, instant: Date): number {
+  const wall = wallClock(instant.getTime(), settings.timeZone)
+
+  // Shift back by the rollover so hours before it count toward the previous date
+  return Math.floor((wall - settings.dayRolloverHour * HOUR_MS) / DAY_MS)
+}
+
+/**
+ * Start and end of the day containing `now`
+ *
+ * @returns The window as instants, end exclusive
+ */
+export function getDailyWindow(
+  settings: DaySettings,
+  now = new Date(),
+): { start: Date; end: Date } {
+  const rollover = settings.dayRolloverHour * HOUR_MS
+  const date = getDayNumber(settings, now) * DAY_MS
+
+  return {
+    start: fromWallClock(date + rollover, settings.timeZone),
+    end: fromWallClock(date + DAY_MS + rollover, settings.timeZone),
+  }
+}
+
+/**
+ * Today's window for a user, from their saved time zone and rollover hour
+ */
+export async function getUserDailyWindow(userId: number): Promise<{ start: Date; end: Date }> {
+  const settings = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { timeZone: true, dayRolloverHour: true },
+  })
+
+  return getDailyWindow(settings)
+}
@@ -70,3 +70,16 @@ export function decryptTextServer(encryptedData: string, base64Key: string): str
 
   return decrypted.toString('utf8')
 }
+
+/**
+ * Keyed hash (HMAC-SHA256) of text with the provided base64 encryption key
+ * Encrypted values can't be compared; their hashes can, without revealing the text
+ *
+ * @param text - The plaintext to hash
+ * @param base64Key - The base64-encoded encryption key
+ * @returns Hex-encoded hash
+ */
+export function hashTextServer(text: string, base64Key: string): string {
+  const key = Buffer.from(base64Key, 'base64')
+  return crypto.createHmac('sha256', key).update(text, 'utf8').digest('hex')
+}
@@ -1,8 +1,11 @@
 import crypto from 'crypto'
+import { decryptTextServer, encryptTextServer } from './encryption-server-crypto'
 
 /**
- * Server-side encryption key derivation
- * Derives a consistent encryption key from a user's password that will be sent to the client
+ * Server-side encryption key management
+ * Each user has a random data key that encrypts their journal. The data key is stored
+ * wrapped (AES-GCM) by a key derived from the user's password and a per-user salt,
+ * and the unwrapped data key is what gets sent to the client in the encryptionKey cookie
  */
 
 // Use a unique salt from environment or default
@@ -10,10 +13,11 @@ import crypto from 'crypto'
 const ENCRYPTION_SALT = process.env.ENCRYPTION_SALT || 'lovisa-bottles-encryption-salt-change-this'
 const ITERATIONS = 100000
 const KEY_LENGTH = 32 // 256 bits for AES-256
+const SALT_LENGTH = 16
 
 /**
- * Derives an encryption key from a password using PBKDF2
- * This key will be sent to the client in a secure cookie for client-side encryption
+ * Derives the legacy encryption key from a password using PBKDF2 and the global salt
+ * Only used to migrate accounts created before per-user data keys
  *
  * @param password - The user's password
  * @returns Base64-encoded encryption key (safe for cookie storage)
@@ -30,3 +34,82 @@ export function deriveEncryptionKey(password: string): string {
   // Return as base64 for easy cookie storage
   return key.toString('base64')
 }
+
+/**
+ * Generates a random journal data key
+ *
+ * @returns Base64-encoded 256-bit key
+ */
+export function generateDataKey(): string {
+  return crypto.randomBytes(KEY_LENGTH).toString('base64')
+}
+
+/**
+ * Generates a random per-user salt for wrapping key derivation
+ *
+ * @returns Base64-encoded salt
+ */
+export function generateKeySalt(): string {
+  return crypto.randomBytes(SALT_LENGTH).toString('base64')
+}
+
+/**
+ * Derives the key that wraps a user's data key from a secret and per-user salt
+ *
+ * @param secret - The user's password (or another secret that can unlock the data key)
+ * @param salt - Base64-encoded per-user salt
+ * @returns Base64-encoded wrapping key
+ */
+export function deriveWrappingKey(secret: string, salt: string): string {
+  const key = crypto.pbkdf2Sync(
+    secret,
+    Buffer.from(salt, 'base64'),
+    ITERATIONS,
+    KEY_LENGTH,
+    'sha256'
+  )
+
+  return key.toString('base64')
+}
+
+/**
+ * Derives a wrapping key from a passkey's PRF output
+ * The PRF output is already high-entropy, so HKDF is enough (no slow PBKDF2)
+ *
+ * @param prfOutput - Base64url-encoded WebAuthn PRF result
+ * @param salt - Base64-encoded per-passkey salt
+ * @returns Base64-encoded wrapping key
+ */
+export function deriveWrappingKeyFromPrf(prfOutput: string, salt: string): string {
+  const key = crypto.hkdfSync(
+    'sha256',
+    Buffer.from(prfOutput, 'base64url'),
+    Buffer.from(salt, 'base64'),
+    'lovisa-bottles passkey data key',
+    KEY_LENGTH
+  )
+
+  return Buffer.from(key).toString('base64')
+}
+
+/**
+ * Wraps a data key with a wrapping key using AES-GCM
+ *
+ * @param dataKey - Base64-encoded data key
+ * @param wrappingKey - Base64-encoded wrapping key
+ * @returns Base64-encoded wrapped key (includes IV and auth tag)
+ */
+export function wrapDataKey(dataKey: string, wrappingKey: string): string {
+  return encryptTextServer(dataKey, wrappingKey)
+}
+
+/**
+ * Unwraps a data key, throwing if the wrapping key is wrong
+ *
+ * @param wrappedDataKey - Base64-encoded wrapped key
+ * @param wrappingKey - Base64-encoded wrapping key
+ * @returns Base64-encoded data key
+ */
+export function unwrapDataKey(wrappedDataKey: string, wrappingKey: string): string {
+  return decryptTextServer(wrappedDataKey, wrappingKey)
+}
@@ -1,9 +1,17 @@
 /**
  * Client-side encryption utilities using Web Crypto API (AES-GCM)
- * Journal entries are encrypted before being sent to the server
- * Uses a derived key stored in cookies (derived from password on server)
+ * Used by private journal mode: entries are encrypted in the browser before being sent
+ * to the server, with a key derived from a passphrase that never leaves the browser
+ * (the server only stores the salt and a key check)
  */
 
+const ITERATIONS = 310000
+const SALT_LENGTH = 16
+const IV_LENGTH = 12 // 12 bytes for AES-GCM
+
+// Encrypted with the key when private mode is set up, so a passphrase can be checked later
+const KEY_CHECK_VALUE = 'lovisa-bottles-private-journal'
+
 function ensureCryptoAvailable() {
   if (typeof window === 'undefined') {
     throw new Error('Encryption is only available in the browser')
@@ -13,38 +21,54 @@ function ensureCryptoAvailable() {
   }
 }
 
-/**
- * Gets the encryption key from cookies
- * The key is derived from the user's password on the server and stored in a cookie
- */
-function getEncryptionKeyFromCookie(): string {
-  if (typeof document === 'undefined') {
-    throw new Error('Cannot access cookies outside of browser')
-  }
-
-  const cookies = document.cookie.split(';')
-  for (const cookie of cookies) {
-    const [name, value] = cookie.trim().split('=')
-    if (name === 'encryptionKey') {
-      return decodeURIComponent(value)
-    }
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
   }
+  return btoa(binary)
+}
 
-  throw new Error('Encryption key not found. Please log in again.')
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0))
 }
 
 /**
- * Imports the base64-encoded encryption key as a CryptoKey for use with Web Crypto API
+ * Generates a random salt for deriving a private key
+ *
+ * @returns Base64-encoded salt
  */
-async function importKey(base64Key: string): Promise<CryptoKey> {
+export function generatePrivateKeySalt(): string {
   ensureCryptoAvailable()
+  return toBase64(window.crypto.getRandomValues(new Uint8Array(SALT_LENGTH)))
+}
 
-  // Convert base64 to raw bytes
-  const keyData = Uint8Array.from(atob(base64Key), (c) => c.charCodeAt(0))
+/**
+ * Derives the private journal key from a passphrase using PBKDF2
+ * The key can't be exported, so it only lives in this page's memory
+ *
+ * @param passphrase - The user's private mode passphrase
+ * @param salt - Base64-encoded salt stored with the user
+ */
+export async function derivePrivateKey(passphrase: string, salt: string): Promise<CryptoKey> {
+  ensureCryptoAvailable()
 
-  return window.crypto.subtle.importKey(
+  const material = await window.crypto.subtle.importKey(
     'raw',
-    keyData,
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return window.crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: fromBase64(salt),
+      iterations: ITERATIONS,
+      hash: 'SHA-256',
+    },
+    material,
     { name: 'AES-GCM', length: 256 },
     false,
     ['encrypt', 'decrypt']
@@ -52,18 +76,16 @@ async function importKey(base64Key: string): Promise<CryptoKey> {
 }
 
 /**
- * Encrypts text using the encryption key from cookies
+ * Encrypts text with a private key
  * @param text - The plaintext to encrypt
+ * @param key - Key from derivePrivateKey
  * @returns Base64-encoded encrypted data (includes IV)
  */
-export async function encryptText(text: string): Promise<string> {
+export async function encryptText(text: string, key: CryptoKey): Promise<string> {
   ensureCryptoAvailable()
 
-  const base64Key = getEncryptionKeyFromCookie()
-  const key = await importKey(base64Key)
-
   const encoder = new TextEncoder()
-  const iv = window.crypto.getRandomValues(new Uint8Array(12)) // 12 bytes for AES-GCM
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH))
 
   const encryptedContent = await window.crypto.subtle.encrypt(
     {
@@ -81,27 +103,25 @@ export async function encryptText(text: string): Promise<string> {
   combined.set(encryptedBytes, iv.length)
 
   // Convert to base64 for storage
-  return btoa(String.fromCharCode(...combined))
+  return toBase64(combined)
 }
 
 /**
- * Decrypts text using the encryption key from cookies
+ * Decrypts text with a private key
  * @param encryptedData - Base64-encoded encrypted data
+ * @param key - Key from derivePrivateKey
  * @returns The decrypted plaintext
  */
-export async function decryptText(encryptedData: string): Promise<string> {
+export async function decryptText(encryptedData: string, key: CryptoKey): Promise<string> {
   ensureCryptoAvailable()
 
   try {
-    const base64Key = getEncryptionKeyFromCookie()
-    const key = await importKey(base64Key)
-
     // Convert from base64
-    const combined = Uint8Array.from(atob(encryptedData), (c) => c.charCodeAt(0))
+    const combined = fromBase64(encryptedData)
 
     // Extract iv and encrypted content
-    const iv = combined.slice(0, 12)
-    const encryptedContent = combined.slice(12)
+    const iv = combined.slice(0, IV_LENGTH)
+    const encryptedContent = combined.slice(IV_LENGTH)
 
     const decryptedContent = await window.crypto.subtle.decrypt(
       {
@@ -118,3 +138,21 @@ export async function decryptText(encryptedData: string): Promise<string> {
     throw new Error('Decryption failed - corrupted data or invalid key')
   }
 }
+
+/**
+ * Encrypts the known check value, stored so the passphrase can be verified on unlock
+ */
+export function createKeyCheck(key: CryptoKey): Promise<string> {
+  return encryptText(KEY_CHECK_VALUE, key)
+}
+
+/**
+ * Whether a key is the one the check value was encrypted with (i.e. the passphrase is right)
+ */
+export async function verifyKeyCheck(key: CryptoKey, keyCheck: string): Promise<boolean> {
+  try {
+    return (await decryptText(keyCheck, key)) === KEY_CHECK_VALUE
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,120 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { apiFetch } from './auth-context'
+
+const AUTOSAVE_DELAY_MS = 3000
+
+function saveDraft(entry: string, keepalive = false) {
+  return apiFetch('/api/journal/draft', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ entry }),
+    keepalive,
+  })
+}
+
+/**
+ * Autosaves the entry being written as an encrypted server-side draft
+ * The draft is restored into an empty editor on load, saved a few seconds after typing
+ * stops (and when the page is hidden), and discarded by the server once the entry is submitted
+ *
+ * @param enabled - Whether the user is signed in
+ * @param paused - Stops saving, e.g. in private mode where the text must not reach the server
+ * @returns When the draft was last saved, a callback for after a successful submit, and one
+ * that deletes the server draft
+ */
+export function useJournalDraft(
+  entry: string,
+  setEntry: (entry: string) => void,
+  enabled: boolean,
+  paused = false,
+): { savedAt: Date | null; markSubmitted: () => void; discard: () => Promise<void> } {
+  const [loaded, setLoaded] = useState(false)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+  const lastSaved = useRef('')
+  const current = useRef(entry)
+  current.current = entry
+  const isPaused = useRef(paused)
+  isPaused.current = paused
+
+  // Restore; nothing is saved before this finishes so an empty editor can't wipe the draft
+  useEffect(() => {
+    if (!enabled || loaded) return
+
+    const restore = async () => {
+      try {
+        const res = await apiFetch('/api/journal/draft')
+        if (res.ok) {
+          const { draft } = await res.json()
+          if (draft) {
+            lastSaved.current = draft.entry
+            setSavedAt(new Date(draft.updatedAt))
+            if (!current.current) {
+              setEntry(draft.entry)
+            }
+          }
+        }
+      } catch (err) {
+        console.error('Failed to load draft:', err)
+      } finally {
+        setLoaded(true)
+      }
+    }
+
+    restore()
+  }, [enabled, loaded, setEntry])
+
+  // Save once typing pauses
+  useEffect(() => {
+    if (!loaded || paused || entry === lastSaved.current) return
+
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await saveDraft(entry)
+        if (res.ok) {
+          const data = await res.json()
+          lastSaved.current = entry
+          setSavedAt(data.updatedAt ? new Date(data.updatedAt) : null)
+        }
+      } catch (err) {
+        console.error('Failed to save draft:', err)
+      }
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timeout)
+  }, [entry, loaded, paused])
+
+  // Flush unsaved text when the tab is closed or backgrounded
+  useEffect(() => {
+    if (!loaded) return
+
+    const flush = () => {
+      if (!isPaused.current && current.current !== lastSaved.current) {
+        saveDraft(current.current, true).catch(() => {})
+        lastSaved.current = current.current
+      }
+    }
+
+    window.addEventListener('pagehide', flush)
+    return () => window.removeEventListener('pagehide', flush)
+  }, [loaded])
+
+  const markSubmitted = useCallback(() => {
+    lastSaved.current = ''
+    setSavedAt(null)
+  }, [])
+
+  // Leaves the editor alone; anything typed later is saved again unless paused
+  const discard = useCallback(async () => {
+    lastSaved.current = ''
+    setSavedAt(null)
+    try {
+      await apiFetch('/api/journal/draft', { method: 'DELETE' })
+    } catch (err) {
+      console.error('Failed to discard draft:', err)
+    }
+  }, [])
+
+  return { savedAt, markSubmitted, discard }
+}
@@ -0,0 +1,325 @@
+import type { Readable } from 'node:stream'
+import { decryptTextServer } from './encryption-server-crypto'
+import { journalImageId } from './journal-images'
+import {
+  EXPORT_BOTTLE_PREFIX,
+  EXPORT_PRIVATE_NOTICE,
+  EXPORT_PROMPT_PREFIX,
+  EXPORT_TAGS_PREFIX,
+  EXPORT_UNREADABLE_NOTICE,
+} from './journal-import'
+import { decryptTagName } from './journal-tags'
+import { prisma } from './prisma'
+import { downloadFromR2 } from './r2'
+import type { JournalExportFormat } from './schemas'
+import { createZipWriter } from './zip'
+
+/**
+ * Journal export
+ * Streams a user's decrypted entries as Markdown (one file per day, zipped), JSON, or a zip
+ * with both plus the images attached to entries. Entries are read in batches, so memory use
+ * stays flat however many years the journal covers
+ */
+
+const BATCH_SIZE = 100
+
+const encoder = new TextEncoder()
+
+interface ExportedEntry {
+  id: number
+  date: Date
+  createdAt: Date
+  updatedAt: Date | null
+  entry: string | null // NULL if the entry could not be decrypted
+  prompt: string | null // Writing prompt the entry answers, if any
+  clientEncrypted: boolean // Private entry: entry and prompt are exported as the browser encrypted them
+  tags: string[]
+  bottle: { id: number; name: string; openedAt: Date } | null
+  images: string[]
+}
+
+/**
+ * All of a user's entries, oldest first, decrypted one batch at a time
+ */
+async function* exportedEntries(
+  userId: number,
+  encryptionKey: string,
+): AsyncGenerator<ExportedEntry> {
+  let cursor: number | undefined
+
+  while (true) {
+    const batch = await prisma.journalEntry.findMany({
+      where: { userId },
+      include: {
+        bottleOpen: {
+          include: {
+            bottle: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
+        tags: {
+          include: {
+            tag: {
+              select: {
+                name: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { id: 'asc' }],
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+
+    for (const row of batch) {
+      let entry: string | null = null
+      let prompt: string | null = null
+      if (row.clientEncrypted) {
+        entry = row.entry
+        prompt = row.prompt
+      } else {
+        try {
+          entry = decryptTextServer(row.entry, encryptionKey)
+          prompt = row.prompt && decryptTextServer(row.prompt, encryptionKey)
+        } catch (error) {
+          console.error('Failed to decrypt journal entry:', error)
+        }
+      }
+
+      yield {
+        id: row.id,
+        date: row.date,
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt,
+        entry,
+        prompt,
+        clientEncrypted: row.clientEncrypted,
+        tags: row.tags.map(({ tag }) => decryptTagName(tag.name, encryptionKey)),
+        bottle: row.bottleOpen
+          ? { ...row.bottleOpen.bottle, openedAt: row.bottleOpen.openedAt }
+          : null,
+        images: row.images,
+      }
+    }
+
+    if (batch.length < BATCH_SIZE) {
+      return
+    }
+    cursor = batch[batch.length - 1].id
+  }
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Read back by parseImportFile (lib/journal-import.ts), so re-imports are recognized
+function entryToMarkdown(entry: ExportedEntry): string {
+  const lines = [`## ${entry.date.toISOString().slice(11, 16)} UTC`, '']
+
+  if (entry.bottle) {
+    lines.push(`${EXPORT_BOTTLE_PREFIX}${entry.bottle.name}`, '')
+  }
+
+  if (entry.tags.length > 0) {
+    lines.push(`${EXPORT_TAGS_PREFIX}${entry.tags.join(', ')}`, '')
+  }
+
+  // Ciphertext would only clutter the Markdown; the JSON export keeps it
+  if (entry.clientEncrypted) {
+    lines.push(EXPORT_PRIVATE_NOTICE)
+    return lines.join('\n')
+  }
+
+  if (entry.prompt) {
+    for (const line of entry.prompt.split('\n')) {
+      lines.push(`${EXPORT_PROMPT_PREFIX}${line}`)
+    }
+    lines.push('')
+  }
+
+  lines.push(entry.entry ?? EXPORT_UNREADABLE_NOTICE)
+  return lines.join('\n')
+}
+
+/**
+ * One Markdown document per day that has entries
+ */
+async function* markdownDays(
+  userId: number,
+  encryptionKey: string,
+): AsyncGenerator<{ day: string; content: string; modified: Date }> {
+  let day: string | null = null
+  let sections: string[] = []
+  let modified = new Date(0)
+
+  const flush = () => ({
+    day: day as string,
+    content: `# ${day}\n\n${sections.join('\n\n---\n\n')}\n`,
+    modified,
+  })
+
+  // Entries arrive in date order, so a day is complete once the next one starts
+  for await (const entry of exportedEntries(userId, encryptionKey)) {
+    const key = dayKey(entry.date)
+    if (day && key !== day) {
+      yield flush()
+      sections = []
+    }
+
+    day = key
+    sections.push(entryToMarkdown(entry))
+    modified = entry.updatedAt ?? entry.createdAt
+  }
+
+  if (day) {
+    yield flush()
+  }
+}
+
+async function* jsonDocument(userId: number, encryptionKey: string): AsyncGenerator<Uint8Array> {
+  yield encoder.encode(`{"exportedAt":${JSON.stringify(new Date())},"entries":[`)
+
+  let first = true
+  for await (const entry of exportedEntries(userId, encryptionKey)) {
+    yield encoder.encode(`${first ? '' : ','}\n  ${JSON.stringify(entry)}`)
+    first = false
+  }
+
+  yield encoder.encode('\n]}\n')
+}
+
+/**
+ * Images attached to the user's entries that the user uploaded themselves
+ * (images shared with them by an admin keep their view limits and aren't exported)
+ */
+async function attachedImages(userId: number) {
+  const entries = await prisma.journalEntry.findMany({
+    where: { userId, images: { isEmpty: false } },
+    select: { images: true },
+  })
+
+  const ids = new Set<string>()
+  for (const { images } of entries) {
+    for (const url of images) {
+      const id = journalImageId(url)
+      if (id) {
+        ids.add(id)
+      }
+    }
+  }
+
+  if (ids.size === 0) {
+    return []
+  }
+
+  return prisma.image.findMany({
+    where: { id: { in: [...ids] }, userId },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+async function* bodyChunks(body: ReadableStream | Readable | Blob): AsyncGenerator<Uint8Array> {
+  if (body instanceof Blob) {
+    yield new Uint8Array(await body.arrayBuffer())
+    return
+  }
+
+  for await (const chunk of body as AsyncIterable<Uint8Array>) {
+    yield chunk
+  }
+}
+
+async function* zipArchive(
+  userId: number,
+  encryptionKey: string,
+  markdownOnly: boolean,
+): AsyncGenerator<Uint8Array> {
+  const zip = createZipWriter()
+  const markdownDir = markdownOnly ? '' : 'markdown/'
+
+  for await (const { day, content, modified } of markdownDays(userId, encryptionKey)) {
+    yield* zip.addFile(`${markdownDir}${day}.md`, content, modified)
+  }
+
+  if (!markdownOnly) {
+    yield* zip.addFile('journal.json', jsonDocument(userId, encryptionKey))
+
+    for (const image of await attachedImages(userId)) {
+      // Fetch before writing the header so a missing object is skipped, not half-written
+      let body: Awaited<ReturnType<typeof downloadFromR2>>['stream']
+      try {
+        body = (await downloadFromR2(image.storageKey)).stream
+      } catch (error) {
+        console.error('Failed to export image:', error)
+        continue
+      }
+
+      const filename = image.filename.replace(/[/\\]/g, '_')
+      yield* zip.addFile(`images/${image.id}-${filename}`, bodyChunks(body), image.createdAt)
+    }
+  }
+
+  yield zip.finish()
+}
+
+function toReadableStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        console.error('Journal export error:', error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+}
+
+/**
+ * Builds a streamed export of a user's journal
+ *
+ * @param encryptionKey - The user's data key, from the encryptionKey cookie
+ * @returns The body stream plus the headers to download it with
+ */
+export function createJournalExport(
+  userId: number,
+  encryptionKey: string,
+  format: JournalExportFormat,
+): { stream: ReadableStream<Uint8Array>; contentType: string; filename: string } {
+  const today = dayKey(new Date())
+
+  switch (format) {
+    case 'json':
+      return {
+        stream: toReadableStream(jsonDocument(userId, encryptionKey)),
+        contentType: 'application/json',
+        filename: `journal-${today}.json`,
+      }
+    case 'md':
+      return {
+        stream: toReadableStream(zipArchive(userId, encryptionKey, true)),
+        contentType: 'application/zip',
+        filename: `journal-markdown-${today}.zip`,
+      }
+    case 'zip':
+      return {
+        stream: toReadableStream(zipArchive(userId, encryptionKey, false)),
+        contentType: 'application/zip',
+        filename: `journal-${today}.zip`,
+      }
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest'
+import { sniffJournalImageType } from './journal-images'
+
+vi.mock('./prisma', () => ({ prisma: {} }))
+
+vi.mock('./r2', () => ({
+  deleteFromR2: vi.fn(),
+  generateStorageKey: vi.fn(),
+  uploadToR2: vi.fn(),
+}))
+
+describe('sniffJournalImageType', () => {
+  it('recognises raster photos by their magic numbers', () => {
+    expect(sniffJournalImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]))).toBe('image/jpeg')
+    expect(
+      sniffJournalImageType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0])),
+    ).toBe('image/png')
+    expect(sniffJournalImageType(Buffer.from('RIFF\x24\0\0\0WEBPVP8 ', 'latin1'))).toBe(
+      'image/webp',
+    )
+    expect(sniffJournalImageType(Buffer.from('GIF89a\x01\0\x01\0', 'latin1'))).toBe('image/gif')
+    expect(sniffJournalImageType(Buffer.from('\0\0\0\x18ftypheic\0\0\0\0', 'latin1'))).toBe(
+      'image/heic',
+    )
+  })
+
+  it('rejects SVG and anything else, whatever it is called', () => {
+    expect(
+      sniffJournalImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script/></svg>')),
+    ).toBeNull()
+    expect(sniffJournalImageType(Buffer.from('<?xml version="1.0"?><svg/>'))).toBeNull()
+    expect(sniffJournalImageType(Buffer.from('\0\0\0\x18ftypisom', 'latin1'))).toBeNull()
+    expect(sniffJournalImageType(Buffer.alloc(0))).toBeNull()
+  })
+})
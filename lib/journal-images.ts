@@ -0,0 +1,243 @@
+import { grantImageAccess } from './image-access'
+import { prisma } from './prisma'
+import { deleteFromR2, generateStorageKey, uploadToR2 } from './r2'
+import { JOURNAL_IMAGE_TYPES, MAX_JOURNAL_IMAGES } from './schemas'
+
+/**
+ * Photos attached to journal entries
+ * Viewers upload their own photos as private Image rows, stored in R2 under journal/ next
+ * to a small thumbnail made in the browser. Entries reference them as /api/images/<id> URLs,
+ * and the images are deleted with the entry; uploads that never make it onto an entry expire.
+ * Only images under the journal/ prefix can be attached, so an admin's bottle images are never
+ * deleted along with an entry
+ */
+
+export const MAX_JOURNAL_IMAGE_BYTES = 10 * 1024 * 1024 // 10MB
+const MAX_THUMBNAIL_BYTES = 512 * 1024
+const STORAGE_PREFIX = 'journal/'
+// Uploads still not on an entry after this were left behind by an abandoned or discarded draft
+const UNATTACHED_IMAGE_TTL_MS = 24 * 60 * 60 * 1000
+// Drafts don't record their photos, so a recently saved draft keeps all of the user's uploads
+const DRAFT_IMAGE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+const UNATTACHED_CLEANUP_BATCH = 50
+
+type JournalImageType = (typeof JOURNAL_IMAGE_TYPES)[number]
+
+const EXTENSIONS: Record<JournalImageType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+}
+
+// ISO-BMFF brands used by HEIC/HEIF photos
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'])
+
+/**
+ * Image format from the file's magic number; the type the client claims is not trusted
+ *
+ * @returns The MIME type, or null if the bytes aren't one of JOURNAL_IMAGE_TYPES
+ */
+export function sniffJournalImageType(bytes: Buffer): JournalImageType | null {
+  const ascii = (start: number, end: number) => bytes.toString('latin1', start, end)
+
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg'
+  }
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png'
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp'
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'image/gif'
+  }
+  if (ascii(4, 8) === 'ftyp' && HEIC_BRANDS.has(ascii(8, 12))) {
+    return 'image/heic'
+  }
+  return null
+}
+
+export function journalImageUrl(imageId: string): string {
+  return `/api/images/${imageId}`
+}
+
+/**
+ * Image ID from an attachment URL
+ */
+export function journalImageId(url: string): string | null {
+  return url.match(/^\/api\/images\/([\w-]+)$/)?.[1] ?? null
+}
+
+/**
+ * Stores a viewer's photo and its thumbnail, owned by and visible to the uploader only
+ * Both are stored with the type their bytes show, whatever the client sent
+ */
+export async function uploadJournalImage(
+  userId: number,
+  file: File,
+  thumbnail: File | null,
+): Promise<
+  | { success: true; imageId: string; contentType: JournalImageType }
+  | { success: false; error: string }
+> {
+  if (file.size > MAX_JOURNAL_IMAGE_BYTES) {
+    return { success: false, error: 'File too large. Maximum size is 10MB' }
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer())
+  const contentType = sniffJournalImageType(bytes)
+
+  if (!contentType) {
+    return { success: false, error: 'Only JPEG, PNG, WebP, GIF and HEIC photos are allowed' }
+  }
+
+  // A bad thumbnail isn't worth failing the upload for; the full image is shown instead
+  const thumbnailBytes =
+    thumbnail && thumbnail.size <= MAX_THUMBNAIL_BYTES
+      ? Buffer.from(await thumbnail.arrayBuffer())
+      : null
+  const thumbnailType = thumbnailBytes ? sniffJournalImageType(thumbnailBytes) : null
+
+  // Opportunistic cleanup so abandoned uploads don't pile up
+  await deleteUnattachedJournalImages()
+
+  const storageKey = generateStorageKey(`photo.${EXTENSIONS[contentType]}`).replace(
+    /^images\//,
+    STORAGE_PREFIX,
+  )
+  await uploadToR2(storageKey, bytes, contentType)
+
+  let thumbnailKey: string | null = null
+  if (thumbnailBytes && thumbnailType) {
+    thumbnailKey = storageKey.replace(STORAGE_PREFIX, `${STORAGE_PREFIX}thumbnails/`)
+    await uploadToR2(thumbnailKey, thumbnailBytes, thumbnailType)
+  }
+
+  const image = await prisma.image.create({
+    data: {
+      userId,
+      storageKey,
+      thumbnailKey,
+      filename: file.name,
+      contentType,
+      sizeBytes: file.size,
+    },
+  })
+
+  await grantImageAccess(image.id, userId)
+
+  return { success: true, imageId: image.id, contentType }
+}
+
+/**
+ * Checks that the images belong to the user and aren't attached to another entry
+ *
+ * @returns The attachment URLs to store on the entry
+ */
+export async function resolveJournalImages(
+  userId: number,
+  imageIds: string[],
+): Promise<{ success: true; urls: string[] } | { success: false; error: string }> {
+  const ids = [...new Set(imageIds)]
+  if (ids.length === 0) {
+    return { success: true, urls: [] }
+  }
+
+  if (ids.length > MAX_JOURNAL_IMAGES) {
+    return { success: false, error: `Attach at most ${MAX_JOURNAL_IMAGES} photos` }
+  }
+
+  const owned = await prisma.image.count({
+    where: { id: { in: ids }, userId, storageKey: { startsWith: STORAGE_PREFIX } },
+  })
+
+  if (owned !== ids.length) {
+    return { success: false, error: 'Photo not found' }
+  }
+
+  const urls = ids.map(journalImageUrl)
+  const attached = await prisma.journalEntry.findFirst({
+    where: { userId, images: { hasSome: urls } },
+    select: { id: true },
+  })
+
+  if (attached) {
+    return { success: false, error: 'Photo is already attached to another entry' }
+  }
+
+  return { success: true, urls }
+}
+
+/**
+ * Deletes the user's own images behind the given attachment URLs, from R2 and the database
+ * Storage failures are logged and skipped so the rows are still removed
+ */
+export async function deleteJournalImages(userId: number, urls: string[]): Promise<void> {
+  const ids = urls.map(journalImageId).filter((id): id is string => !!id)
+  if (ids.length === 0) {
+    return
+  }
+
+  const images = await prisma.image.findMany({
+    where: { id: { in: ids }, userId, storageKey: { startsWith: STORAGE_PREFIX } },
+  })
+
+  for (const image of images) {
+    for (const key of [image.storageKey, image.thumbnailKey]) {
+      if (!key) continue
+      try {
+        await deleteFromR2(key)
+      } catch (error) {
+        console.error('Failed to delete journal image from R2:', error)
+      }
+    }
+  }
+
+  // Access records cascade
+  await prisma.image.deleteMany({
+    where: { id: { in: images.map((image) => image.id) } },
+  })
+}
+
+/**
+ * Deletes journal photos that were uploaded but not attached to any entry within
+ * UNATTACHED_IMAGE_TTL_MS, oldest first and a batch at a time
+ * Users with a draft saved within DRAFT_IMAGE_TTL_MS keep theirs, as the draft may use them
+ */
+export async function deleteUnattachedJournalImages(): Promise<void> {
+  const cutoff = new Date(Date.now() - UNATTACHED_IMAGE_TTL_MS)
+  const draftCutoff = new Date(Date.now() - DRAFT_IMAGE_TTL_MS)
+
+  const stale = await prisma.$queryRaw<Array<{ id: string; user_id: number }>>`
+    SELECT images.id, images.user_id
+    FROM images
+    WHERE images.storage_key LIKE ${`${STORAGE_PREFIX}%`}
+      AND images.created_at < ${cutoff}
+      AND NOT EXISTS (
+        SELECT 1
+        FROM journal_entries
+        WHERE journal_entries.user_id = images.user_id
+          AND ('/api/images/' || images.id) = ANY(journal_entries.images)
+      )
+      AND NOT EXISTS (
+        SELECT 1
+        FROM journal_drafts
+        WHERE journal_drafts.user_id = images.user_id
+          AND journal_drafts.updated_at >= ${draftCutoff}
+      )
+    ORDER BY images.created_at
+    LIMIT ${UNATTACHED_CLEANUP_BATCH}
+  `
+
+  const byUser = new Map<number, string[]>()
+  for (const image of stale) {
+    byUser.set(image.user_id, [...(byUser.get(image.user_id) ?? []), journalImageUrl(image.id)])
+  }
+
+  for (const [userId, urls] of byUser) {
+    await deleteJournalImages(userId, urls)
+  }
+}
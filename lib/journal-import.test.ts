@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest'
+import { encryptTextServer } from './encryption-server-crypto'
+import { createJournalExport } from './journal-export'
+import { entryFingerprint, parseImportFile } from './journal-import'
+
+const KEY = Buffer.alloc(32, 7).toString('base64')
+
+const rows = [
+  {
+    id: 1,
+    date: new Date('2024-06-01T09:15:00Z'),
+    createdAt: new Date('2024-06-01T09:15:00Z'),
+    updatedAt: null,
+    entry: encryptTextServer('hello world\n\nsecond paragraph', KEY),
+    prompt: encryptTextServer('What made you smile?', KEY),
+    clientEncrypted: false,
+    images: [],
+    tags: [
+      { tag: { name: encryptTextServer('work', KEY) } },
+      { tag: { name: encryptTextServer('us', KEY) } },
+    ],
+    bottleOpen: {
+      openedAt: new Date('2024-06-01T09:15:00Z'),
+      bottle: { id: 3, name: 'Summer' },
+    },
+  },
+  {
+    id: 2,
+    date: new Date('2024-06-01T21:40:00Z'),
+    createdAt: new Date('2024-06-01T21:40:00Z'),
+    updatedAt: null,
+    entry: encryptTextServer('just text', KEY),
+    prompt: null,
+    clientEncrypted: false,
+    images: [],
+    tags: [],
+    bottleOpen: null,
+  },
+  {
+    id: 3,
+    date: new Date('2024-06-02T08:00:00Z'),
+    createdAt: new Date('2024-06-02T08:00:00Z'),
+    updatedAt: null,
+    entry: 'b3BhcXVlIGJyb3dzZXIgY2lwaGVydGV4dA==',
+    prompt: null,
+    clientEncrypted: true,
+    images: [],
+    tags: [],
+    bottleOpen: null,
+  },
+]
+
+vi.mock('./prisma', () => ({
+  prisma: {
+    journalEntry: {
+      findMany: vi.fn(async () => rows),
+    },
+  },
+}))
+
+vi.mock('./r2', () => ({
+  downloadFromR2: vi.fn(),
+  deleteFromR2: vi.fn(),
+  generateStorageKey: vi.fn(),
+  uploadToR2: vi.fn(),
+}))
+
+/**
+ * Files of a stored (uncompressed) ZIP, read through its central directory
+ */
+function unzip(archive: Buffer): { name: string; content: string }[] {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  const count = archive.readUInt16LE(end + 10)
+  let offset = archive.readUInt32LE(end + 16)
+
+  const files: { name: string; content: string }[] = []
+  for (let i = 0; i < count; i++) {
+    const size = archive.readUInt32LE(offset + 20)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const headerOffset = archive.readUInt32LE(offset + 42)
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    const dataStart =
+      headerOffset +
+      30 +
+      archive.readUInt16LE(headerOffset + 26) +
+      archive.readUInt16LE(headerOffset + 28)
+    files.push({ name, content: archive.toString('utf8', dataStart, dataStart + size) })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return files
+}
+
+describe('Markdown export round trip', () => {
+  it('parses exported entries back to their text, prompt and tags', async () => {
+    const { stream } = createJournalExport(1, KEY, 'md')
+    const files = unzip(Buffer.from(await new Response(stream).arrayBuffer()))
+
+    const entries = files.flatMap((file) => {
+      const result = parseImportFile(file)
+      if (!result.success) throw new Error(result.error)
+      return result.entries
+    })
+
+    // The private entry has no text in the export and is skipped
+    expect(entries).toHaveLength(2)
+
+    expect(entries[0]).toMatchObject({
+      date: rows[0].date,
+      text: 'hello world\n\nsecond paragraph',
+      prompt: 'What made you smile?',
+      tags: ['work', 'us'],
+    })
+    expect(entries[1]).toMatchObject({ date: rows[1].date, text: 'just text' })
+    expect(entries[1].prompt).toBeUndefined()
+
+    // Same fingerprint as the stored entries, so a re-import finds only duplicates
+    expect(entryFingerprint(entries[0].date, entries[0].text)).toBe(
+      entryFingerprint(rows[0].date, 'hello world\n\nsecond paragraph'),
+    )
+    expect(entryFingerprint(entries[1].date, entries[1].text)).toBe(
+      entryFingerprint(rows[1].date, 'just text'),
+    )
+  })
+})
@@ -0,0 +1,222 @@
+import { createHash } from 'node:crypto'
+import { z } from 'zod'
+
+/**
+ * Journal import parsing
+ * Turns Markdown/plain-text files and Day One JSON exports into dated entries. Text files
+ * are split on date headings ("# 2021-03-04", "2021-03-04 14:30") and time headings within
+ * a day ("## 14:30 UTC", as written by the export); a file named after a date holds entries
+ * for that day. Times are read as UTC, and entries without one are placed at noon so the
+ * day doesn't shift in other timezones. Entries from this app's own Markdown export get their
+ * tags and prompt back; the bottle line is dropped (bottles are only opened by submitting),
+ * and private or undecryptable entries, exported without their text, are skipped
+ */
+
+export interface ImportFile {
+  name: string
+  content: string
+}
+
+export interface ParsedEntry {
+  date: Date
+  text: string
+  prompt?: string // Writing prompt, from this app's export
+  tags?: string[] // Tag names, from this app's export
+  source: string // File the entry came from
+}
+
+type ParseResult = { success: true; entries: ParsedEntry[] } | { success: false; error: string }
+
+const DATE_HEADING = /^(?:#{1,6}\s+)?(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}))?(?:\s*UTC)?$/
+const TIME_HEADING = /^#{1,6}\s+(\d{2}:\d{2})(?:\s*UTC)?$/
+const FILENAME_DATE = /(\d{4}-\d{2}-\d{2})/
+
+// Lines entryToMarkdown (lib/journal-export.ts) writes above an entry's text
+export const EXPORT_BOTTLE_PREFIX = 'Opened bottle: '
+export const EXPORT_TAGS_PREFIX = 'Tags: '
+export const EXPORT_PROMPT_PREFIX = '> '
+// Written instead of the text, which the export doesn't have
+export const EXPORT_PRIVATE_NOTICE =
+  '_Written in private mode. Only your browser can decrypt this entry._'
+export const EXPORT_UNREADABLE_NOTICE = '_This entry could not be decrypted._'
+
+const dayOneExportSchema = z.object({
+  entries: z.array(
+    z.object({
+      creationDate: z.string(),
+      text: z.string().optional(),
+    }),
+  ),
+})
+
+function toDate(day: string, time = '12:00'): Date | null {
+  const date = new Date(`${day}T${time}:00Z`)
+  // Reject rollovers like 2021-02-30
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== day ? null : date
+}
+
+/**
+ * Trims blank lines and the "---" separators between exported entries
+ */
+function cleanText(text: string): string {
+  return text
+    .trim()
+    .replace(/^(?:---\s*\n)+|(?:\n\s*---)+$/g, '')
+    .trim()
+}
+
+/**
+ * Splits the header lines of an entry from this app's export off its text
+ *
+ * @returns The entry's text, prompt and tags, or null for an entry exported without its text
+ */
+function parseExportedEntry(
+  lines: string[],
+): { text: string; prompt?: string; tags?: string[] } | null {
+  let i = 0
+  const skipBlank = () => {
+    while (i < lines.length && !lines[i].trim()) i++
+  }
+
+  skipBlank()
+  if (lines[i]?.startsWith(EXPORT_BOTTLE_PREFIX)) {
+    i++
+    skipBlank()
+  }
+
+  let tags: string[] | undefined
+  if (lines[i]?.startsWith(EXPORT_TAGS_PREFIX)) {
+    tags = lines[i]
+      .slice(EXPORT_TAGS_PREFIX.length)
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean)
+    i++
+    skipBlank()
+  }
+
+  const promptLines: string[] = []
+  while (lines[i]?.startsWith(EXPORT_PROMPT_PREFIX)) {
+    promptLines.push(lines[i].slice(EXPORT_PROMPT_PREFIX.length))
+    i++
+  }
+
+  const text = cleanText(lines.slice(i).join('\n'))
+  if (text === EXPORT_PRIVATE_NOTICE || text === EXPORT_UNREADABLE_NOTICE) {
+    return null
+  }
+
+  return {
+    text,
+    prompt: promptLines.length > 0 ? promptLines.join('\n').trim() : undefined,
+    tags,
+  }
+}
+
+function parseTextFile(file: ImportFile): ParseResult {
+  const entries: ParsedEntry[] = []
+  const fileDay = file.name.match(FILENAME_DATE)?.[1]
+  const fileDate = fileDay ? toDate(fileDay) : null
+
+  let day = fileDate ? fileDay : null
+  // Entries under "## 14:30 UTC" headings are read as this app's export
+  let current: { date: Date; lines: string[]; exported?: boolean } | null = fileDate
+    ? { date: fileDate, lines: [] }
+    : null
+
+  const flush = () => {
+    if (!current) return
+
+    const entry = current.exported
+      ? parseExportedEntry(current.lines)
+      : { text: cleanText(current.lines.join('\n')) }
+    if (entry?.text) {
+      entries.push({ date: current.date, ...entry, source: file.name })
+    }
+  }
+
+  for (const line of file.content.replace(/\r\n?/g, '\n').split('\n')) {
+    const trimmed = line.trim()
+
+    const dateMatch = trimmed.match(DATE_HEADING)
+    const headingDate = dateMatch && toDate(dateMatch[1], dateMatch[2])
+    if (dateMatch && headingDate) {
+      flush()
+      day = dateMatch[1]
+      current = { date: headingDate, lines: [] }
+      continue
+    }
+
+    const timeMatch = day ? trimmed.match(TIME_HEADING) : null
+    const headingTime = timeMatch && day && toDate(day, timeMatch[1])
+    if (headingTime) {
+      flush()
+      current = { date: headingTime, lines: [], exported: /UTC$/.test(trimmed) }
+      continue
+    }
+
+    if (!current) {
+      if (trimmed) {
+        return {
+          success: false,
+          error: 'No date found. Name the file YYYY-MM-DD.md or start entries with a date heading',
+        }
+      }
+      continue
+    }
+
+    current.lines.push(line)
+  }
+
+  flush()
+  return { success: true, entries }
+}
+
+function parseDayOneFile(file: ImportFile): ParseResult {
+  let data: unknown
+  try {
+    data = JSON.parse(file.content)
+  } catch {
+    return { success: false, error: 'Invalid JSON' }
+  }
+
+  const parsed = dayOneExportSchema.safeParse(data)
+  if (!parsed.success) {
+    return { success: false, error: 'Not a Day One JSON export' }
+  }
+
+  const entries: ParsedEntry[] = []
+  for (const entry of parsed.data.entries) {
+    const date = new Date(entry.creationDate)
+    const text = cleanText(
+      (entry.text ?? '')
+        // Photo placeholders point into the Day One library and can't be imported
+        .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, '')
+        // Day One escapes Markdown punctuation
+        .replace(/\\([\\`*_{}[\]()#+\-.!])/g, '$1'),
+    )
+
+    if (!Number.isNaN(date.getTime()) && text) {
+      entries.push({ date, text, source: file.name })
+    }
+  }
+
+  return { success: true, entries }
+}
+
+/**
+ * Parses one uploaded file; .json files are read as Day One exports, anything else as text
+ */
+export function parseImportFile(file: ImportFile): ParseResult {
+  return file.name.toLowerCase().endsWith('.json') ? parseDayOneFile(file) : parseTextFile(file)
+}
+
+/**
+ * Identifies an entry by its day and whitespace-normalized text, so re-importing the
+ * same journal (or one exported from here) is detected even if times differ
+ */
+export function entryFingerprint(date: Date, text: string): string {
+  return createHash('sha256')
+    .update(`${date.toISOString().slice(0, 10)}\n${text.trim().replace(/\s+/g, ' ')}`)
+    .digest('hex')
+}
@@ -0,0 +1,204 @@
+import type { Prisma } from '@prisma/client'
+import { decryptTextServer, encryptTextServer } from './encryption-server-crypto'
+import { generateMoodQuery, generateTextEmbedding } from './openai'
+import { prisma } from './prisma'
+
+/**
+ * Mood of journal entries over time
+ * Submitting an entry asks the AI for a mood read of it (the query used to pick a bottle).
+ * The read is stored encrypted and its embedding in plain, so entries can be compared with
+ * each other and with bottle moods in the database. The timeline averages embeddings per
+ * week and labels weeks and entries with the mood of the nearest bottle the user has opened
+ */
+
+const BACKFILL_BATCH_SIZE = 10
+
+export interface MoodTimeline {
+  weeks: {
+    week: Date // Monday of the week
+    entries: number
+    drift: number | null // Cosine distance from the previous week's average mood (0-2)
+    label: string | null // Mood of the nearest bottle
+  }[]
+  days: {
+    id: number
+    date: Date
+    moodQuery: string | null // NULL if it could not be decrypted
+    label: string | null
+  }[]
+  pending: number // Entries without a mood yet, see backfillEntryMoods
+}
+
+/**
+ * Stores the mood read and embedding for an entry
+ */
+export async function saveEntryMood(
+  db: Prisma.TransactionClient,
+  entryId: number,
+  mood: { query: string; embedding: number[] },
+  encryptionKey: string,
+): Promise<void> {
+  const embeddingString = `[${mood.embedding.join(',')}]`
+
+  await db.$executeRaw`
+    UPDATE journal_entries
+    SET mood_query = ${encryptTextServer(mood.query, encryptionKey)},
+        mood_embedding = ${embeddingString}::vector
+    WHERE id = ${entryId}
+  `
+}
+
+/**
+ * Forgets an entry's mood, e.g. after its text was edited, so backfill recomputes it
+ */
+export async function clearEntryMood(entryId: number): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE journal_entries
+    SET mood_query = NULL, mood_embedding = NULL
+    WHERE id = ${entryId}
+  `
+}
+
+/**
+ * Analyzes the mood of entries written before moods were stored, a batch at a time
+ *
+ * @returns How many entries were analyzed and how many are still left
+ */
+export async function backfillEntryMoods(
+  userId: number,
+  encryptionKey: string,
+): Promise<{ processed: number; remaining: number }> {
+  // Private entries can't be read here; they get their mood when submitted
+  const entries = await prisma.journalEntry.findMany({
+    where: { userId, moodQuery: null, clientEncrypted: false },
+    orderBy: { date: 'desc' },
+    take: BACKFILL_BATCH_SIZE,
+    select: { id: true, entry: true },
+  })
+
+  let processed = 0
+  for (const entry of entries) {
+    let text: string
+    try {
+      text = decryptTextServer(entry.entry, encryptionKey)
+    } catch (error) {
+      // Unreadable with this key; an empty mood marks it as skipped so it isn't retried
+      console.error('Failed to decrypt journal entry:', error)
+      await prisma.journalEntry.update({
+        where: { id: entry.id },
+        data: { moodQuery: '' },
+      })
+      continue
+    }
+
+    const query = await generateMoodQuery(text)
+    const embedding = await generateTextEmbedding(query)
+    await saveEntryMood(prisma, entry.id, { query, embedding }, encryptionKey)
+    processed++
+  }
+
+  const remaining = await prisma.journalEntry.count({
+    where: { userId, moodQuery: null, clientEncrypted: false },
+  })
+
+  return { processed, remaining }
+}
+
+/**
+ * Weekly mood drift and per-entry moods for the last few weeks
+ */
+export async function getMoodTimeline(
+  userId: number,
+  encryptionKey: string,
+  weeks: number,
+): Promise<MoodTimeline> {
+  const since = new Date()
+  since.setUTCDate(since.getUTCDate() - weeks * 7)
+
+  // Average each week's embeddings, compare with the week before and find the nearest bottle
+  const weekRows = await prisma.$queryRaw<
+    Array<{ week: Date; entries: bigint; drift: number | null; label: string | null }>
+  >`
+    WITH weeks AS (
+      SELECT date_trunc('week', date) AS week,
+             AVG(mood_embedding) AS centroid,
+             COUNT(*) AS entries
+      FROM journal_entries
+      WHERE user_id = ${userId}
+        AND mood_embedding IS NOT NULL
+        AND date >= ${since}
+      GROUP BY 1
+    )
+    SELECT weeks.week,
+           weeks.entries,
+           weeks.centroid <=> LAG(weeks.centroid) OVER (ORDER BY weeks.week) AS drift,
+           nearest.mood AS label
+    FROM weeks
+    LEFT JOIN LATERAL (
+      SELECT mood
+      FROM bottles
+      WHERE EXISTS (
+          SELECT 1
+          FROM bottle_opens
+          WHERE bottle_opens.bottle_id = bottles.id
+            AND bottle_opens.user_id = ${userId}
+        )
+        AND mood_embedding IS NOT NULL
+        AND mood IS NOT NULL
+      ORDER BY mood_embedding <=> weeks.centroid
+      LIMIT 1
+    ) nearest ON true
+    ORDER BY weeks.week
+  `
+
+  const dayRows = await prisma.$queryRaw<
+    Array<{ id: number; date: Date; mood_query: string; label: string | null }>
+  >`
+    SELECT journal_entries.id,
+           journal_entries.date,
+           journal_entries.mood_query,
+           nearest.mood AS label
+    FROM journal_entries
+    LEFT JOIN LATERAL (
+      SELECT mood
+      FROM bottles
+      WHERE EXISTS (
+          SELECT 1
+          FROM bottle_opens
+          WHERE bottle_opens.bottle_id = bottles.id
+            AND bottle_opens.user_id = ${userId}
+        )
+        AND mood_embedding IS NOT NULL
+        AND mood IS NOT NULL
+      ORDER BY mood_embedding <=> journal_entries.mood_embedding
+      LIMIT 1
+    ) nearest ON true
+    WHERE journal_entries.user_id = ${userId}
+      AND journal_entries.mood_embedding IS NOT NULL
+      AND journal_entries.date >= ${since}
+    ORDER BY journal_entries.date
+  `
+
+  const pending = await prisma.journalEntry.count({
+    where: { userId, moodQuery: null, clientEncrypted: false },
+  })
+
+  return {
+    weeks: weekRows.map((row) => ({
+      week: row.week,
+      entries: Number(row.entries),
+      drift: row.drift,
+      label: row.label,
+    })),
+    days: dayRows.map((row) => {
+      let moodQuery: string | null = null
+      try {
+        moodQuery = decryptTextServer(row.mood_query, encryptionKey)
+      } catch (error) {
+        console.error('Failed to decrypt mood query:', error)
+      }
+      return { id: row.id, date: row.date, moodQuery, label: row.label }
+    }),
+    pending,
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Full-text search over decrypted journal entries
+ * Entries are encrypted at rest, so matching happens in memory after decryption with the
+ * user's key. A query is split into words and "quoted phrases"; an entry matches when it
+ * contains every term (case-insensitive)
+ */
+
+const SNIPPET_CONTEXT = 60 // Characters of context on each side of a match
+const MAX_SNIPPETS = 3
+
+export interface SearchSnippet {
+  text: string
+  highlights: [number, number][] // [start, end) offsets into text
+}
+
+/**
+ * Splits a query into lowercase terms, keeping "quoted phrases" together
+ */
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = []
+  const pattern = /"([^"]+)"|(\S+)/g
+
+  for (const match of query.matchAll(pattern)) {
+    const term = (match[1] ?? match[2]).trim().toLowerCase()
+    if (term && !terms.includes(term)) {
+      terms.push(term)
+    }
+  }
+
+  return terms
+}
+
+/**
+ * Every occurrence of every term, sorted and with overlaps merged
+ */
+function findMatches(text: string, terms: string[]): [number, number][] {
+  const lower = text.toLowerCase()
+  const ranges: [number, number][] = []
+
+  for (const term of terms) {
+    let index = lower.indexOf(term)
+    while (index !== -1) {
+      ranges.push([index, index + term.length])
+      index = lower.indexOf(term, index + term.length)
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0])
+
+  const merged: [number, number][] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Matches an entry against the parsed terms
+ *
+ * @returns Snippets around the matches with highlight offsets, or null if a term is missing
+ */
+export function searchEntry(text: string, terms: string[]): SearchSnippet[] | null {
+  const lower = text.toLowerCase()
+  if (terms.length === 0 || !terms.every((term) => lower.includes(term))) {
+    return null
+  }
+
+  // Group nearby matches into context windows
+  const windows: { start: number; end: number; matches: [number, number][] }[] = []
+
+  for (const [start, end] of findMatches(text, terms)) {
+    const last = windows[windows.length - 1]
+
+    if (last && start < last.end) {
+      last.end = Math.min(text.length, Math.max(last.end, end + SNIPPET_CONTEXT))
+      last.matches.push([start, end])
+    } else if (windows.length < MAX_SNIPPETS) {
+      windows.push({
+        start: Math.max(0, start - SNIPPET_CONTEXT),
+        end: Math.min(text.length, end + SNIPPET_CONTEXT),
+        matches: [[start, end]],
+      })
+    } else {
+      break
+    }
+  }
+
+  // Mark cut-off ends with an ellipsis and shift highlights to snippet offsets
+  return windows.map((window) => {
+    const prefix = window.start > 0 ? '…' : ''
+    const suffix = window.end < text.length ? '…' : ''
+    const offset = window.start - prefix.length
+
+    return {
+      text: `${prefix}${text.slice(window.start, window.end)}${suffix}`,
+      highlights: window.matches.map(([start, end]) => [start - offset, end - offset]),
+    }
+  })
+}
@@ -0,0 +1,198 @@
+import { Prisma } from '@prisma/client'
+import { decryptTextServer, encryptTextServer, hashTextServer } from './encryption-server-crypto'
+import { prisma } from './prisma'
+import type { MergeJournalTagsInput, RenameJournalTagInput } from './schemas'
+
+/**
+ * User-defined tags on journal entries ("work", "travel", "us")
+ * Names are encrypted like the entries themselves. A keyed hash of the lowercased name finds
+ * a tag without decrypting all of them and keeps names unique per user, ignoring case
+ */
+
+type TagError = { success: false; error: string; code: 'NOT_FOUND' | 'CONFLICT' | 'BAD_REQUEST' }
+
+const NAME_TAKEN: TagError = {
+  success: false,
+  error: 'Another tag already has this name, merge them instead',
+  code: 'CONFLICT',
+}
+
+function isNameTaken(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+}
+
+function tagNameHash(name: string, encryptionKey: string): string {
+  return hashTextServer(name.toLowerCase(), encryptionKey)
+}
+
+/**
+ * Decrypts a tag name, falling back to the stored value like entries do
+ */
+export function decryptTagName(name: string, encryptionKey: string): string {
+  try {
+    return decryptTextServer(name, encryptionKey)
+  } catch (error) {
+    console.error('Failed to decrypt tag name:', error)
+    return name
+  }
+}
+
+/**
+ * All of a user's tags with how many entries use them, sorted by name
+ */
+export async function listJournalTags(
+  userId: number,
+  encryptionKey: string,
+): Promise<{ id: number; name: string; count: number }[]> {
+  const tags = await prisma.journalTag.findMany({
+    where: { userId },
+    include: { _count: { select: { entries: true } } },
+  })
+
+  return tags
+    .map((tag) => ({
+      id: tag.id,
+      name: decryptTagName(tag.name, encryptionKey),
+      count: tag._count.entries,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * IDs for tag names, creating the tags that don't exist yet
+ */
+export async function resolveJournalTags(
+  userId: number,
+  encryptionKey: string,
+  names: string[],
+): Promise<number[]> {
+  const unique = new Map(names.map((name) => [tagNameHash(name, encryptionKey), name]))
+
+  const tags = await Promise.all(
+    [...unique].map(([nameHash, name]) =>
+      prisma.journalTag
+        .upsert({
+          where: { userId_nameHash: { userId, nameHash } },
+          create: { userId, nameHash, name: encryptTextServer(name, encryptionKey) },
+          update: {},
+          select: { id: true },
+        })
+        .catch((error) => {
+          if (!isNameTaken(error)) throw error
+
+          // Another request created the same tag in the meantime; use that one
+          return prisma.journalTag.findUniqueOrThrow({
+            where: { userId_nameHash: { userId, nameHash } },
+            select: { id: true },
+          })
+        }),
+    ),
+  )
+
+  return tags.map((tag) => tag.id)
+}
+
+/**
+ * Replaces the tags on an entry
+ */
+export async function setEntryTags(entryId: number, tagIds: number[]): Promise<void> {
+  await prisma.$transaction([
+    prisma.journalEntryTag.deleteMany({ where: { entryId } }),
+    prisma.journalEntryTag.createMany({ data: tagIds.map((tagId) => ({ entryId, tagId })) }),
+  ])
+}
+
+/**
+ * Renames a tag; the new name must not belong to another of the user's tags
+ */
+export async function renameJournalTag(
+  userId: number,
+  encryptionKey: string,
+  { id, name }: RenameJournalTagInput,
+): Promise<{ success: true } | TagError> {
+  const nameHash = tagNameHash(name, encryptionKey)
+
+  const existing = await prisma.journalTag.findUnique({
+    where: { userId_nameHash: { userId, nameHash } },
+  })
+
+  if (existing && existing.id !== id) {
+    return NAME_TAKEN
+  }
+
+  const updated = await prisma.journalTag
+    .updateMany({
+      where: { id, userId },
+      data: { name: encryptTextServer(name, encryptionKey), nameHash },
+    })
+    .catch((error) => {
+      // A concurrent rename took the name after the check above
+      if (isNameTaken(error)) return null
+      throw error
+    })
+
+  if (!updated) {
+    return NAME_TAKEN
+  }
+
+  if (updated.count === 0) {
+    return { success: false, error: 'Tag not found', code: 'NOT_FOUND' }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Moves every entry of one tag onto another and removes the first
+ */
+export async function mergeJournalTags(
+  userId: number,
+  { sourceId, targetId }: MergeJournalTagsInput,
+): Promise<{ success: true } | TagError> {
+  if (sourceId === targetId) {
+    return { success: false, error: "Can't merge a tag into itself", code: 'BAD_REQUEST' }
+  }
+
+  const tags = await prisma.journalTag.count({
+    where: { id: { in: [sourceId, targetId] }, userId },
+  })
+
+  if (tags !== 2) {
+    return { success: false, error: 'Tag not found', code: 'NOT_FOUND' }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const links = await tx.journalEntryTag.findMany({
+      where: { tagId: sourceId },
+      select: { entryId: true },
+    })
+
+    // Entries that already have both tags keep a single link
+    await tx.journalEntryTag.createMany({
+      data: links.map(({ entryId }) => ({ entryId, tagId: targetId })),
+      skipDuplicates: true,
+    })
+
+    await tx.journalTag.delete({ where: { id: sourceId } })
+  })
+
+  return { success: true }
+}
+
+/**
+ * Deletes a tag; its entries are kept
+ */
+export async function deleteJournalTag(
+  userId: number,
+  id: number,
+): Promise<{ success: true } | TagError> {
+  const { count } = await prisma.journalTag.deleteMany({
+    where: { id, userId },
+  })
+
+  if (count === 0) {
+    return { success: false, error: 'Tag not found', code: 'NOT_FOUND' }
+  }
+
+  return { success: true }
+}
@@ -0,0 +1,568 @@
+import { Prisma } from '@prisma/client'
+import { recordAuditEvent } from './audit'
+import { getUserDailyWindow } from './daily-window'
+import { decryptTextServer, encryptTextServer } from './encryption-server-crypto'
+import { deleteJournalImages, resolveJournalImages } from './journal-images'
+import { clearEntryMood, saveEntryMood } from './journal-mood'
+import { decryptTagName, resolveJournalTags, setEntryTags } from './journal-tags'
+import { generateMoodQuery, generateTextEmbedding, pickBestBottle } from './openai'
+import { prisma } from './prisma'
+import type {
+  CreateJournalInput,
+  ListJournalInput,
+  SubmitJournalInput,
+  SubmitPrivateJournalInput,
+  UpdateJournalInput,
+} from './schemas'
+import type { RequestMeta } from './sessions'
+
+/**
+ * Journal entries of a user
+ * Shared by the REST routes under /api/journal and the tRPC journal router. Entries are
+ * encrypted with the user's data key before they are stored and decrypted on the way out.
+ * Private entries (clientEncrypted) arrive encrypted by the browser and are passed through as is
+ */
+
+type EntryError = {
+  success: false
+  error: string
+  code: 'NOT_FOUND' | 'FORBIDDEN' | 'BAD_REQUEST'
+}
+
+const entryInclude = {
+  bottleOpen: {
+    include: {
+      bottle: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  tags: {
+    include: {
+      tag: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.JournalEntryInclude
+
+type EntryWithRelations = Prisma.JournalEntryGetPayload<{ include: typeof entryInclude }>
+
+function decryptEntry(entry: EntryWithRelations, encryptionKey: string) {
+  const tags = entry.tags.map(({ tag }) => ({
+    id: tag.id,
+    name: decryptTagName(tag.name, encryptionKey),
+  }))
+
+  // Only the browser holds the key for private entries
+  if (entry.clientEncrypted) {
+    return { ...entry, tags }
+  }
+
+  try {
+    return {
+      ...entry,
+      entry: decryptTextServer(entry.entry, encryptionKey),
+      prompt: entry.prompt && decryptTextServer(entry.prompt, encryptionKey),
+      tags,
+    }
+  } catch (error) {
+    console.error('Failed to decrypt journal entry:', error)
+    // Return raw encrypted string if decryption fails
+    return { ...entry, tags }
+  }
+}
+
+export type DecryptedJournalEntry = ReturnType<typeof decryptEntry>
+
+/**
+ * Looks up an entry and checks it belongs to the user
+ */
+async function findOwnEntry(
+  userId: number,
+  id: number,
+  action: 'edit' | 'delete',
+): Promise<
+  { success: true; entry: { id: number; images: string[]; clientEncrypted: boolean } } | EntryError
+> {
+  const entry = await prisma.journalEntry.findUnique({
+    where: { id },
+    select: { id: true, userId: true, images: true, clientEncrypted: true },
+  })
+
+  if (!entry) {
+    return { success: false, error: 'Journal entry not found', code: 'NOT_FOUND' }
+  }
+
+  if (entry.userId !== userId) {
+    return {
+      success: false,
+      error: `Unauthorized - You can only ${action} your own journal entries`,
+      code: 'FORBIDDEN',
+    }
+  }
+
+  return { success: true, entry }
+}
+
+/**
+ * Cursor for the entry after which the next page starts
+ */
+function encodeCursor(entry: { date: Date; id: number }): string {
+  return `${entry.date.toISOString()}_${entry.id}`
+}
+
+function decodeCursor(cursor: string): { date: Date; id: number } {
+  const [date, id] = cursor.split('_')
+  return { date: new Date(date), id: Number(id) }
+}
+
+/**
+ * Lists a page of journal entries with bottle info and tags, newest first
+ * Pages are keyed on (date, id) so entries written meanwhile don't shift later pages.
+ * Only the returned page is decrypted
+ */
+export async function listJournalEntries(
+  userId: number,
+  encryptionKey: string,
+  { cursor, limit, tagIds }: ListJournalInput,
+) {
+  const after = cursor ? decodeCursor(cursor) : null
+
+  const entries = await prisma.journalEntry.findMany({
+    where: {
+      userId,
+      ...(after
+        ? {
+            OR: [{ date: { lt: after.date } }, { date: after.date, id: { lt: after.id } }],
+          }
+        : {}),
+      // Entries with every selected tag
+      ...(tagIds?.length ? { AND: tagIds.map((tagId) => ({ tags: { some: { tagId } } })) } : {}),
+    },
+    include: entryInclude,
+    orderBy: [{ date: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+  })
+
+  const hasMore = entries.length > limit
+  const page = hasMore ? entries.slice(0, limit) : entries
+
+  return {
+    entries: page.map((entry) => decryptEntry(entry, encryptionKey)),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+  }
+}
+
+/**
+ * One of the user's entries with bottle info, or null if they have none with this ID
+ */
+export async function getJournalEntry(
+  userId: number,
+  encryptionKey: string,
+  id: number,
+): Promise<DecryptedJournalEntry | null> {
+  const entry = await prisma.journalEntry.findFirst({
+    where: { id, userId },
+    include: entryInclude,
+  })
+
+  return entry && decryptEntry(entry, encryptionKey)
+}
+
+/**
+ * Saves an entry without opening a bottle
+ */
+export async function createJournalEntry(
+  userId: number,
+  encryptionKey: string,
+  input: CreateJournalInput,
+): Promise<{ id: number; date: Date }> {
+  const tagIds = await resolveJournalTags(userId, encryptionKey, input.tags ?? [])
+
+  const entry = await prisma.journalEntry.create({
+    data: {
+      userId,
+      date: input.date ?? new Date(),
+      entry: encryptTextServer(input.entry, encryptionKey),
+      tags: { create: tagIds.map((tagId) => ({ tagId })) },
+    },
+  })
+
+  return { id: entry.id, date: entry.date }
+}
+
+/**
+ * Replaces an entry's text and, if given, its tags (linked bottle opens are kept)
+ * A private entry only takes new text encrypted in the browser, and no tags
+ */
+export async function updateJournalEntry(
+  userId: number,
+  encryptionKey: string,
+  id: number,
+  input: UpdateJournalInput,
+  meta: RequestMeta,
+): Promise<
+  | { success: true; entry: { id: number; date: Date; entry: string; updatedAt: Date | null } }
+  | EntryError
+> {
+  const found = await findOwnEntry(userId, id, 'edit')
+  if (!found.success) {
+    return found
+  }
+
+  const { clientEncrypted } = found.entry
+  if (!!input.clientEncrypted !== clientEncrypted) {
+    return {
+      success: false,
+      error: clientEncrypted
+        ? 'This entry was written in private mode and must be encrypted in the browser'
+        : 'Only entries written in private mode are encrypted in the browser',
+      code: 'BAD_REQUEST',
+    }
+  }
+
+  if (clientEncrypted && input.tags?.length) {
+    return { success: false, error: 'Private entries have no tags', code: 'BAD_REQUEST' }
+  }
+
+  // Re-encrypt the new text (private entries come encrypted already)
+  const updated = await prisma.journalEntry.update({
+    where: { id },
+    data: {
+      entry: clientEncrypted ? input.entry : encryptTextServer(input.entry, encryptionKey),
+      updatedAt: new Date(),
+    },
+  })
+
+  if (input.tags && !clientEncrypted) {
+    await setEntryTags(id, await resolveJournalTags(userId, encryptionKey, input.tags))
+  }
+
+  // The old mood read no longer matches the text; backfill computes a new one.
+  // A private entry keeps the mood its writer shared, since the text can't be read again
+  if (!clientEncrypted) {
+    await clearEntryMood(id)
+  }
+
+  await recordAuditEvent({
+    action: 'journal.updated',
+    actorId: userId,
+    target: { type: 'journal', id },
+    meta,
+  })
+
+  return {
+    success: true,
+    entry: {
+      id: updated.id,
+      date: updated.date,
+      entry: input.entry,
+      updatedAt: updated.updatedAt,
+    },
+  }
+}
+
+/**
+ * Deletes an entry, its bottle open and its photos
+ */
+export async function deleteJournalEntry(
+  userId: number,
+  id: number,
+  meta: RequestMeta,
+): Promise<{ success: true } | EntryError> {
+  const found = await findOwnEntry(userId, id, 'delete')
+  if (!found.success) {
+    return found
+  }
+
+  // Delete the journal entry (cascade will handle bottleOpen)
+  await prisma.journalEntry.delete({
+    where: { id },
+  })
+
+  // Attached photos belong to the entry alone
+  await deleteJournalImages(userId, found.entry.images)
+
+  // Only the ID; the entry itself never goes into the audit log
+  await recordAuditEvent({
+    action: 'journal.deleted',
+    actorId: userId,
+    target: { type: 'journal', id },
+    meta,
+  })
+
+  return { success: true }
+}
+
+// The entry is saved, so its autosaved draft is no longer needed
+function discardDraft(userId: number) {
+  return prisma.journalDraft.deleteMany({ where: { userId } })
+}
+
+type SubmitResult =
+  | { success: true; journalId: number; bottleId?: number; message: string }
+  | { success: false; error: string }
+
+/**
+ * A submitted entry, ready to store, and the text the AI reads to pick a bottle
+ */
+interface SubmittedEntry {
+  entry: string // Encrypted, by the server or by the browser
+  prompt: string | null // Encrypted like the entry
+  images: string[] // Photo IDs from /api/journal/images
+  tags: string[] // Tag names
+  clientEncrypted: boolean
+  moodText: string // The entry itself, or for a private entry the mood its writer shared
+}
+
+/**
+ * Saves today's entry and opens the bottle whose mood fits it best
+ * The AI reads the entry's mood, the closest unopened bottles are found by embedding and
+ * the AI picks one of them. Non-admins open at most one bottle per day; after that the
+ * entry is only saved
+ *
+ * @returns The saved entry, the opened bottle if any, and a message for the viewer
+ */
+export async function submitJournalEntry(
+  user: { id: number; isAdmin: boolean },
+  encryptionKey: string,
+  input: SubmitJournalInput,
+  meta: RequestMeta,
+): Promise<SubmitResult> {
+  return saveSubmittedEntry(
+    user,
+    encryptionKey,
+    {
+      entry: encryptTextServer(input.entry, encryptionKey),
+      // The chosen writing prompt is stored encrypted like the entry
+      prompt: input.prompt ? encryptTextServer(input.prompt, encryptionKey) : null,
+      images: input.images,
+      tags: input.tags,
+      clientEncrypted: false,
+      moodText: input.entry,
+    },
+    meta,
+  )
+}
+
+/**
+ * Saves today's entry written in private mode and opens a bottle for it
+ * The server never sees the entry: bottles are picked from the mood the writer chose to
+ * share, which is kept as the entry's mood. Photos and tags are left out, since the server
+ * would see them
+ */
+export async function submitPrivateJournalEntry(
+  user: { id: number; isAdmin: boolean },
+  encryptionKey: string,
+  input: SubmitPrivateJournalInput,
+  meta: RequestMeta,
+): Promise<SubmitResult> {
+  return saveSubmittedEntry(
+    user,
+    encryptionKey,
+    {
+      entry: input.entry,
+      prompt: input.prompt ?? null,
+      images: [],
+      tags: [],
+      clientEncrypted: true,
+      moodText: input.mood,
+    },
+    meta,
+  )
+}
+
+async function saveSubmittedEntry(
+  user: { id: number; isAdmin: boolean },
+  encryptionKey: string,
+  submitted: SubmittedEntry,
+  meta: RequestMeta,
+): Promise<SubmitResult> {
+  const { entry, prompt, clientEncrypted, moodText } = submitted
+
+  // Photos must be the user's own uploads, not yet on another entry
+  const attachments = await resolveJournalImages(user.id, submitted.images)
+  if (!attachments.success) {
+    return attachments
+  }
+  const images = attachments.urls
+
+  // New tag names become tags of their own
+  const tagIds = await resolveJournalTags(user.id, encryptionKey, submitted.tags)
+  const tags = { create: tagIds.map((tagId) => ({ tagId })) }
+
+  if (!user.isAdmin) {
+    // "Today" in the user's time zone, starting at their rollover hour
+    const today = await getUserDailyWindow(user.id)
+
+    const openedToday = await prisma.bottleOpen.findFirst({
+      where: {
+        userId: user.id,
+        openedAt: {
+          gte: today.start,
+          lt: today.end,
+        },
+      },
+    })
+
+    if (openedToday) {
+      const journalEntry = await prisma.journalEntry.create({
+        data: {
+          userId: user.id,
+          date: new Date(),
+          entry,
+          images,
+          prompt,
+          tags,
+          clientEncrypted,
+        },
+      })
+
+      // Backfill can't read a private entry later, so its shared mood is kept now
+      if (clientEncrypted) {
+        const embedding = await generateTextEmbedding(moodText)
+        await saveEntryMood(prisma, journalEntry.id, { query: moodText, embedding }, encryptionKey)
+      }
+
+      await discardDraft(user.id)
+
+      return {
+        success: true,
+        journalId: journalEntry.id,
+        message: 'Journal created. You already opened a bottle today.',
+      }
+    }
+  }
+
+  // A private entry's shared mood is used as is; the AI never reads the entry
+  const moodQuery = clientEncrypted ? moodText : await generateMoodQuery(moodText)
+
+  const queryEmbedding = await generateTextEmbedding(moodQuery)
+  const mood = { query: moodQuery, embedding: queryEmbedding }
+  const embeddingString = `[${queryEmbedding.join(',')}]`
+
+  const openedBottleIds = await prisma.bottleOpen.findMany({
+    where: { userId: user.id },
+    select: { bottleId: true },
+  })
+
+  const openedIds = openedBottleIds.map((b) => b.bottleId)
+
+  let topBottles: Array<{ id: number; name: string; mood: string | null }>
+
+  if (openedIds.length > 0) {
+    topBottles = await prisma.$queryRaw<Array<{ id: number; name: string; mood: string | null }>>`
+      SELECT id, name, mood
+      FROM bottles
+      WHERE id NOT IN (${Prisma.join(openedIds)})
+        AND mood_embedding IS NOT NULL
+        AND mood IS NOT NULL
+      ORDER BY mood_embedding <=> ${embeddingString}::vector
+      LIMIT 5
+    `
+  } else {
+    topBottles = await prisma.$queryRaw<Array<{ id: number; name: string; mood: string | null }>>`
+      SELECT id, name, mood
+      FROM bottles
+      WHERE mood_embedding IS NOT NULL
+        AND mood IS NOT NULL
+      ORDER BY mood_embedding <=> ${embeddingString}::vector
+      LIMIT 5
+    `
+  }
+
+  if (topBottles.length === 0) {
+    const journalEntry = await prisma.journalEntry.create({
+      data: {
+        userId: user.id,
+        date: new Date(),
+        entry,
+        images,
+        prompt,
+        tags,
+        clientEncrypted,
+      },
+    })
+
+    await saveEntryMood(prisma, journalEntry.id, mood, encryptionKey)
+    await discardDraft(user.id)
+
+    return {
+      success: true,
+      journalId: journalEntry.id,
+      message: 'Journal created. No bottles left to open.',
+    }
+  }
+
+  // AI picks the best bottle from the top 5
+  const bottlesForAI = topBottles.map((b) => ({
+    id: b.id,
+    name: b.name,
+    mood: b.mood || 'No mood description',
+  }))
+
+  const selectedBottleId = await pickBestBottle(moodText, bottlesForAI)
+  console.log('AI selected bottle ID:', selectedBottleId)
+
+  // Find the selected bottle in our list
+  let finalBottle = topBottles.find((b) => b.id === selectedBottleId)
+  if (!finalBottle) {
+    // Fallback to first bottle if AI picked something invalid
+    console.error('AI picked invalid bottle, using first match')
+    finalBottle = topBottles[0]
+  }
+
+  // Create journal and open bottle in transaction
+  const result = await prisma.$transaction(async (tx) => {
+    // Create journal entry first (encrypted)
+    const journalEntry = await tx.journalEntry.create({
+      data: {
+        userId: user.id,
+        date: new Date(),
+        entry,
+        images,
+        prompt,
+        tags,
+        clientEncrypted,
+      },
+    })
+
+    // Keep the mood read for the mood timeline
+    await saveEntryMood(tx, journalEntry.id, mood, encryptionKey)
+
+    // Open bottle and link to journal
+    const bottleOpen = await tx.bottleOpen.create({
+      data: {
+        bottleId: finalBottle.id,
+        userId: user.id,
+        journalEntryId: journalEntry.id,
+      },
+    })
+
+    return { bottleOpen, journalEntry }
+  })
+
+  await recordAuditEvent({
+    action: 'bottle.opened',
+    actorId: user.id,
+    target: { type: 'bottle', id: finalBottle.id },
+    metadata: { journalId: result.journalEntry.id },
+    meta,
+  })
+
+  await discardDraft(user.id)
+
+  return {
+    success: true,
+    journalId: result.journalEntry.id,
+    bottleId: finalBottle.id,
+    message: 'Journal created and bottle opened!',
+  }
+}
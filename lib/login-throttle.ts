@@ -0,0 +1,170 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+/**
+ * Brute-force protection for login
+ * Failed attempts are counted per account and per IP in the database (so they
+ * survive serverless cold starts). After a few free attempts every further failure
+ * locks the key for an exponentially growing period.
+ * Each attempt is counted as a failure before the password is checked, with the rows
+ * locked, so a burst of parallel guesses can't all get in before the lockout is written.
+ * Attempts that turn out fine are refunded
+ */
+
+const ACCOUNT_FREE_ATTEMPTS = 5
+const IP_FREE_ATTEMPTS = 20 // Higher, several people can share an IP
+const BASE_LOCKOUT_MS = 30 * 1000 // 30 seconds after the first lockout
+const MAX_LOCKOUT_MS = 60 * 60 * 1000 // Never lock for more than an hour
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000 // Forget failures after a quiet day
+
+export const LOGIN_LOCKED_CODE = 'LOGIN_LOCKED'
+
+/**
+ * Cause of a tRPC lockout error; the errorFormatter passes LOGIN_LOCKED_CODE and retryAfter
+ * on to the client, matching the REST routes
+ */
+export class LoginLockedError extends Error {
+  code = LOGIN_LOCKED_CODE
+  retryAfter: number // Seconds until the account/IP unlocks
+
+  constructor(retryAfter: number) {
+    super(`Too many failed attempts. Try again in ${retryAfter} seconds`)
+    this.name = 'LoginLockedError'
+    this.retryAfter = retryAfter
+  }
+}
+
+function accountKey(email: string): string {
+  return `email:${email.toLowerCase()}`
+}
+
+function ipKey(ipAddress: string): string {
+  return `ip:${ipAddress}`
+}
+
+function keysFor(email: string, ipAddress: string | null): string[] {
+  return ipAddress ? [accountKey(email), ipKey(ipAddress)] : [accountKey(email)]
+}
+
+/**
+ * Lockout length after a given number of failures
+ */
+function lockoutMs(failures: number, freeAttempts: number): number {
+  if (failures < freeAttempts) {
+    return 0
+  }
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failures - freeAttempts), MAX_LOCKOUT_MS)
+}
+
+function freeAttemptsFor(key: string): number {
+  return key.startsWith('ip:') ? IP_FREE_ATTEMPTS : ACCOUNT_FREE_ATTEMPTS
+}
+
+/**
+ * Locks the throttle rows for the rest of the transaction, creating missing ones
+ * Keys are always locked in the same order (account, then IP) so claims can't deadlock
+ */
+async function lockThrottles(tx: Prisma.TransactionClient, keys: string[]) {
+  for (const key of keys) {
+    await tx.$executeRaw`
+      INSERT INTO login_throttles (key, failures) VALUES (${key}, 0) ON CONFLICT (key) DO NOTHING
+    `
+  }
+
+  return tx.$queryRaw<
+    Array<{
+      key: string
+      failures: number
+      last_failure_at: Date | null
+      locked_until: Date | null
+    }>
+  >`
+    SELECT key, failures, last_failure_at, locked_until
+    FROM login_throttles
+    WHERE key = ANY(${keys})
+    ORDER BY key
+    FOR UPDATE
+  `
+}
+
+/**
+ * Claims a login attempt for the account and IP, counting it as a failure up front
+ * Call refundLoginAttempt or clearLoginFailures once the attempt turns out not to be one
+ *
+ * @returns allowed, or how many seconds until the account/IP unlocks
+ */
+export async function claimLoginAttempt(
+  email: string,
+  ipAddress: string | null,
+): Promise<{ allowed: true } | { allowed: false; retryAfterSeconds: number }> {
+  return prisma.$transaction(async (tx) => {
+    const throttles = await lockThrottles(tx, keysFor(email, ipAddress))
+
+    const now = new Date()
+    const lockedUntil = Math.max(0, ...throttles.map((t) => t.locked_until?.getTime() ?? 0))
+
+    if (lockedUntil > now.getTime()) {
+      return {
+        allowed: false as const,
+        retryAfterSeconds: Math.ceil((lockedUntil - now.getTime()) / 1000),
+      }
+    }
+
+    for (const throttle of throttles) {
+      // Start over if the last failure was long ago
+      const stale =
+        !throttle.last_failure_at ||
+        now.getTime() - throttle.last_failure_at.getTime() > FAILURE_WINDOW_MS
+      const failures = stale ? 1 : throttle.failures + 1
+      const lockMs = lockoutMs(failures, freeAttemptsFor(throttle.key))
+
+      await tx.loginThrottle.update({
+        where: { key: throttle.key },
+        data: {
+          failures,
+          lastFailureAt: now,
+          lockedUntil: lockMs > 0 ? new Date(now.getTime() + lockMs) : null,
+        },
+      })
+    }
+
+    return { allowed: true as const }
+  })
+}
+
+/**
+ * Takes back a claimed attempt that wasn't a failure, e.g. a right password when the
+ * two-factor code is still to come
+ */
+export async function refundLoginAttempt(email: string, ipAddress: string | null): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const throttles = await lockThrottles(tx, keysFor(email, ipAddress))
+
+    for (const throttle of throttles) {
+      const failures = Math.max(0, throttle.failures - 1)
+
+      await tx.loginThrottle.update({
+        where: { key: throttle.key },
+        data: {
+          failures,
+          // Lift the lock this attempt set, not one earlier failures earned
+          ...(lockoutMs(failures, freeAttemptsFor(throttle.key)) === 0 && { lockedUntil: null }),
+        },
+      })
+    }
+  })
+}
+
+/**
+ * Clears the account's failure counter after a successful login
+ * The IP counter only gets this attempt refunded so one valid account can't reset it
+ */
+export async function clearLoginFailures(email: string, ipAddress: string | null): Promise<void> {
+  if (ipAddress) {
+    await refundLoginAttempt(email, ipAddress)
+  }
+
+  await prisma.loginThrottle.deleteMany({
+    where: { key: accountKey(email) },
+  })
+}
@@ -1,11 +1,22 @@
 import { type NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { verifyToken } from './auth'
+import { checkTokenVersion } from './auth-state'
+import { CSRF_COOKIE, CSRF_FAILED_CODE, checkCsrf } from './csrf'
+import {
+  ensureCsrfCookie,
+  getRequestMeta,
+  renewAuthCookiesIfNeeded,
+  validateSession,
+} from './sessions'
+import { effectiveIsAdmin } from './two-factor'
 
 export interface AuthenticatedUser {
   id: number
   email: string
   isAdmin: boolean
+  sessionId: string
+  twoFactor: boolean
 }
 
 export async function withAuth(
@@ -19,20 +30,61 @@ export async function withAuth(
     return NextResponse.json({ error: 'Missing authentication token' }, { status: 401 })
   }
 
+  // Cookie auth is ambient, so mutations must prove they come from our own pages
+  const csrfCookie = request.cookies.get(CSRF_COOKIE)?.value
+  const csrfError = checkCsrf(request.method, request.headers, csrfCookie, { requireToken: true })
+
+  if (csrfError) {
+    return NextResponse.json({ error: csrfError, code: CSRF_FAILED_CODE }, { status: 403 })
+  }
+
   const payload = verifyToken(token)
 
   if (!payload) {
     return NextResponse.json({ error: 'Invalid or expired token' }, { status: 401 })
   }
 
-  // Use the payload data directly from JWT (no DB query needed)
+  // The session must still be active so revoked devices are logged out immediately
+  const isActive = await validateSession(
+    payload.sessionId,
+    payload.userId,
+    getRequestMeta(request.headers),
+  )
+
+  if (!isActive) {
+    return NextResponse.json({ error: 'Session has been revoked or expired' }, { status: 401 })
+  }
+
+  // The account must still exist and the token must not predate a role change
+  const current = await checkTokenVersion(payload)
+
+  if (!current) {
+    return NextResponse.json({ error: 'Token is no longer valid' }, { status: 401 })
+  }
+
   const user: AuthenticatedUser = {
     id: payload.userId,
     email: payload.email,
-    isAdmin: payload.isAdmin,
+    isAdmin: effectiveIsAdmin(current.isAdmin, payload.twoFactor),
+    sessionId: payload.sessionId,
+    twoFactor: !!payload.twoFactor,
+  }
+
+  const response = await handler(request, user)
+
+  // Keep active users signed in; skip when the handler already set auth cookies itself
+  if (!response.headers.has('set-cookie')) {
+    renewAuthCookiesIfNeeded(
+      response.headers,
+      payload,
+      current.isAdmin,
+      request.cookies.get('encryptionKey')?.value,
+    )
   }
 
-  return handler(request, user)
+  ensureCsrfCookie(response.headers, csrfCookie)
+
+  return response
 }
 
 /**
@@ -94,6 +146,13 @@ export async function withValidation<TInput>(
   schema: z.ZodSchema<TInput>,
   handler: (request: NextRequest, data: TInput) => Promise<NextResponse>,
 ): Promise<NextResponse> {
+  // No session to ride on yet, but refuse cross-site posts (e.g. login CSRF)
+  const csrfError = checkCsrf(request.method, request.headers, undefined, { requireToken: false })
+
+  if (csrfError) {
+    return NextResponse.json({ error: csrfError, code: CSRF_FAILED_CODE }, { status: 403 })
+  }
+
   try {
     const body = await request.json()
     const validatedData = schema.parse(body)
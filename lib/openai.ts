@@ -249,3 +249,63 @@ export async function generateTextEmbedding(text: string): Promise<number[]> {
 
   return response.data[0].embedding
 }
+
+const WRITING_PROMPTS_SYSTEM_PROMPT = `You are a gentle writing companion helping Lovisa start her daily journal entry.
+
+You will be given:
+1. The current season and month
+2. Excerpts from her most recent journal entries (may be in any language)
+3. How many days in a row she has been writing
+
+Your task is to suggest exactly 3 short writing prompts she could answer today.
+
+Guidelines:
+- Each prompt is one question or invitation, at most 15 words
+- Draw on the themes of her recent entries without quoting them or repeating their details
+- Let the time of year inspire at least one prompt
+- Acknowledge a long streak lightly if it fits, never pressure her to keep it
+- Make the 3 prompts different from each other in tone (e.g. reflective, playful, forward-looking)
+- Write in the same language as her recent entries, or English if there are none
+- Output ONLY the 3 prompts, one per line, with no numbering or extra commentary`
+
+/**
+ * Generate 3 journal writing prompts from the season, recent entries and writing streak
+ */
+export async function generateWritingPrompts(context: {
+  season: string
+  month: string
+  recentEntries: string[]
+  streak: number
+}): Promise<string[]> {
+  const recent =
+    context.recentEntries.length > 0
+      ? context.recentEntries.map((entry, index) => `Entry ${index + 1}:\n${entry}`).join('\n\n')
+      : 'No entries yet.'
+
+  const openai = getOpenAIClient()
+  const response = await openai.chat.completions.create({
+    model: 'gpt-5-mini',
+    messages: [
+      {
+        role: 'system',
+        content: WRITING_PROMPTS_SYSTEM_PROMPT,
+      },
+      {
+        role: 'user',
+        content: `Season: ${context.season} (${context.month})\nStreak: ${context.streak} days in a row\n\nRecent entries:\n${recent}`,
+      },
+    ],
+  })
+
+  // One prompt per line; drop any numbering or bullets the model adds anyway
+  const prompts = (response.choices[0].message.content ?? '')
+    .split('\n')
+    .map((line) => line.replace(/^\s*(\d+[.)]|[-*•])\s*/, '').trim())
+    .filter(Boolean)
+
+  if (prompts.length < 3) {
+    throw new Error('Failed to generate writing prompts from OpenAI')
+  }
+
+  return prompts.slice(0, 3)
+}
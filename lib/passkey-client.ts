@@ -0,0 +1,84 @@
+import {
+  type AuthenticationExtensionsClientInputs,
+  type AuthenticationResponseJSON,
+  browserSupportsWebAuthn,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+  startAuthentication,
+  startRegistration,
+} from '@simplewebauthn/browser'
+
+/**
+ * Client-side passkey helpers
+ * Wraps @simplewebauthn/browser and asks the authenticator for a PRF result, which the
+ * server uses to unwrap the journal data key on passkey sign-in
+ */
+
+// Fixed PRF input; the output is still unique per passkey
+const PRF_INPUT = new TextEncoder().encode('lovisa-bottles journal key v1')
+
+// @simplewebauthn's extension types don't know about PRF yet
+interface PrfClientOutputs {
+  prf?: { enabled?: boolean; results?: { first?: BufferSource } }
+}
+
+export const passkeysSupported = browserSupportsWebAuthn
+
+function toBase64Url(buffer: BufferSource): string {
+  const bytes =
+    buffer instanceof ArrayBuffer
+      ? new Uint8Array(buffer)
+      : new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Creates a passkey, asking for PRF support at the same time
+ */
+export async function createPasskey(
+  optionsJSON: PublicKeyCredentialCreationOptionsJSON,
+): Promise<RegistrationResponseJSON> {
+  const response = await startRegistration({
+    optionsJSON: {
+      ...optionsJSON,
+      extensions: { ...optionsJSON.extensions, prf: {} } as AuthenticationExtensionsClientInputs,
+    },
+  })
+
+  // PRF results are ArrayBuffers and don't survive JSON; the server doesn't need them
+  const { prf: _prf, ...clientExtensionResults } =
+    response.clientExtensionResults as PrfClientOutputs
+  return { ...response, clientExtensionResults }
+}
+
+/**
+ * Asserts with a passkey and evaluates the PRF
+ *
+ * @returns The response to send to the server and the base64url PRF output, if supported
+ */
+export async function getPasskeyAssertion(
+  optionsJSON: PublicKeyCredentialRequestOptionsJSON,
+): Promise<{ response: AuthenticationResponseJSON; prfOutput?: string }> {
+  const response = await startAuthentication({
+    optionsJSON: {
+      ...optionsJSON,
+      extensions: {
+        ...optionsJSON.extensions,
+        prf: { eval: { first: PRF_INPUT } },
+      } as AuthenticationExtensionsClientInputs,
+    },
+  })
+
+  const { prf, ...clientExtensionResults } = response.clientExtensionResults as PrfClientOutputs
+  const first = prf?.results?.first
+
+  return {
+    response: { ...response, clientExtensionResults },
+    prfOutput: first ? toBase64Url(first) : undefined,
+  }
+}
@@ -0,0 +1,311 @@
+import type { Passkey, User } from '@prisma/client'
+import {
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  type RegistrationResponseJSON,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server'
+import {
+  deriveWrappingKeyFromPrf,
+  generateKeySalt,
+  unwrapDataKey,
+  wrapDataKey,
+} from './encryption-server'
+import { prisma } from './prisma'
+
+/**
+ * Passkey (WebAuthn) sign-in
+ * The journal data key can't be derived from a passkey, so each passkey wraps it with a
+ * key derived from the authenticator's PRF output. The browser sends the PRF output on
+ * sign-in, the server unwraps the data key and sets the encryptionKey cookie as usual
+ */
+
+const RP_NAME = 'lovisa-bottles'
+const CHALLENGE_TTL_MS = 5 * 60 * 1000 // A ceremony must finish within 5 minutes
+
+export interface RelyingParty {
+  rpID: string // Domain, e.g. example.com
+  origin: string // Full origin, e.g. https://example.com
+}
+
+/**
+ * Works out the WebAuthn relying party
+ * WEBAUTHN_ORIGIN pins it in production; otherwise the request origin is used
+ */
+export function getRelyingParty(requestOrigin: string | null): RelyingParty | null {
+  const origin = process.env.WEBAUTHN_ORIGIN || requestOrigin
+  if (!origin) {
+    return null
+  }
+
+  return {
+    rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+    origin,
+  }
+}
+
+async function saveChallenge(challenge: string, userId: number | null): Promise<string> {
+  const saved = await prisma.passkeyChallenge.create({
+    data: { challenge, userId, expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS) },
+  })
+
+  // Opportunistic cleanup so abandoned ceremonies don't pile up
+  await prisma.passkeyChallenge.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  })
+
+  return saved.id
+}
+
+/**
+ * Looks up and deletes a challenge so it can only be answered once
+ *
+ * @returns The challenge, or null if it's unknown, expired or for someone else
+ */
+async function consumeChallenge(
+  challengeId: string,
+  userId: number | null,
+): Promise<string | null> {
+  const saved = await prisma.passkeyChallenge.findUnique({
+    where: { id: challengeId },
+  })
+
+  if (!saved || saved.userId !== userId || saved.expiresAt < new Date()) {
+    return null
+  }
+
+  // A concurrent answer to the same challenge gets count 0
+  const { count } = await prisma.passkeyChallenge.deleteMany({
+    where: { id: challengeId },
+  })
+
+  return count > 0 ? saved.challenge : null
+}
+
+function toCredential(passkey: Passkey) {
+  return {
+    id: passkey.credentialId,
+    publicKey: Buffer.from(passkey.publicKey, 'base64url'),
+    counter: passkey.counter,
+    transports: passkey.transports as AuthenticatorTransportFuture[],
+  }
+}
+
+/**
+ * Options for registering a new passkey for a signed-in user
+ */
+export async function createRegistrationOptions(
+  user: Pick<User, 'id' | 'email'>,
+  rp: RelyingParty,
+) {
+  const existing = await prisma.passkey.findMany({
+    where: { userId: user.id },
+  })
+
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID: rp.rpID,
+    userName: user.email,
+    userID: Buffer.from(String(user.id)),
+    attestationType: 'none',
+    // Discoverable so sign-in works without typing the email
+    authenticatorSelection: { residentKey: 'required', userVerification: 'preferred' },
+    excludeCredentials: existing.map((passkey) => ({
+      id: passkey.credentialId,
+      transports: passkey.transports as AuthenticatorTransportFuture[],
+    })),
+  })
+
+  const challengeId = await saveChallenge(options.challenge, user.id)
+
+  return { challengeId, options }
+}
+
+/**
+ * Verifies a registration and stores the new passkey
+ * Unlocking is set up separately since most authenticators only return PRF results on sign-in
+ */
+export async function registerPasskey(
+  userId: number,
+  challengeId: string,
+  response: RegistrationResponseJSON,
+  name: string,
+  rp: RelyingParty,
+): Promise<{ success: true; passkey: Passkey } | { success: false; error: string }> {
+  const challenge = await consumeChallenge(challengeId, userId)
+  if (!challenge) {
+    return { success: false, error: 'Passkey request expired, try again' }
+  }
+
+  try {
+    const { verified, registrationInfo } = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: challenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      requireUserVerification: false,
+    })
+
+    if (!verified) {
+      return { success: false, error: 'Passkey could not be verified' }
+    }
+
+    const { credential } = registrationInfo
+
+    const passkey = await prisma.passkey.create({
+      data: {
+        userId,
+        credentialId: credential.id,
+        publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+        counter: credential.counter,
+        transports: credential.transports ?? [],
+        name,
+      },
+    })
+
+    return { success: true, passkey }
+  } catch (error) {
+    console.error('Passkey registration error:', error)
+    return { success: false, error: 'Passkey could not be verified' }
+  }
+}
+
+/**
+ * Options for a passkey assertion
+ *
+ * @param userId - Signed-in user setting up unlocking (limits to their passkey), or null for sign-in
+ * @param credentialId - Only allow this credential
+ */
+export async function createAuthenticationOptions(
+  rp: RelyingParty,
+  userId: number | null,
+  credentialId?: string,
+) {
+  const options = await generateAuthenticationOptions({
+    rpID: rp.rpID,
+    userVerification: 'preferred',
+    allowCredentials: credentialId ? [{ id: credentialId }] : [],
+  })
+
+  const challengeId = await saveChallenge(options.challenge, userId)
+
+  return { challengeId, options }
+}
+
+/**
+ * Verifies a passkey assertion and bumps its counter
+ *
+ * @param userId - Expected owner when a signed-in user is asserting, null for sign-in
+ * @returns The passkey and whether the user was verified (biometrics/PIN), or an error
+ */
+export async function verifyPasskeyAssertion(
+  challengeId: string,
+  response: AuthenticationResponseJSON,
+  rp: RelyingParty,
+  userId: number | null,
+): Promise<
+  { success: true; passkey: Passkey; userVerified: boolean } | { success: false; error: string }
+> {
+  const challenge = await consumeChallenge(challengeId, userId)
+  if (!challenge) {
+    return { success: false, error: 'Passkey request expired, try again' }
+  }
+
+  const passkey = await prisma.passkey.findUnique({
+    where: { credentialId: response.id },
+  })
+
+  if (!passkey || (userId !== null && passkey.userId !== userId)) {
+    return { success: false, error: 'Unknown passkey' }
+  }
+
+  try {
+    const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      credential: toCredential(passkey),
+      requireUserVerification: false,
+    })
+
+    if (!verified) {
+      return { success: false, error: 'Passkey could not be verified' }
+    }
+
+    const updated = await prisma.passkey.update({
+      where: { id: passkey.id },
+      data: { counter: authenticationInfo.newCounter, lastUsedAt: new Date() },
+    })
+
+    return { success: true, passkey: updated, userVerified: authenticationInfo.userVerified }
+  } catch (error) {
+    console.error('Passkey assertion error:', error)
+    return { success: false, error: 'Passkey could not be verified' }
+  }
+}
+
+/**
+ * Wraps the journal data key with a passkey's PRF output so it can sign in
+ */
+export async function enablePasskeyUnlock(
+  passkeyId: number,
+  prfOutput: string,
+  dataKey: string,
+): Promise<void> {
+  const prfSalt = generateKeySalt()
+
+  await prisma.passkey.update({
+    where: { id: passkeyId },
+    data: {
+      prfSalt,
+      wrappedDataKey: wrapDataKey(dataKey, deriveWrappingKeyFromPrf(prfOutput, prfSalt)),
+    },
+  })
+}
+
+/**
+ * Unwraps the journal data key with a passkey's PRF output
+ *
+ * @returns The data key, or null if the passkey can't unlock or the PRF output is wrong
+ */
+export function unlockDataKeyWithPasskey(passkey: Passkey, prfOutput: string | undefined) {
+  if (!passkey.prfSalt || !passkey.wrappedDataKey || !prfOutput) {
+    return null
+  }
+
+  try {
+    return unwrapDataKey(
+      passkey.wrappedDataKey,
+      deriveWrappingKeyFromPrf(prfOutput, passkey.prfSalt),
+    )
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Lists a user's passkeys, newest first
+ */
+export async function listPasskeys(userId: number) {
+  return prisma.passkey.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+/**
+ * Removes one of a user's passkeys
+ *
+ * @returns true if a passkey was removed
+ */
+export async function removePasskey(userId: number, passkeyId: number): Promise<boolean> {
+  const { count } = await prisma.passkey.deleteMany({
+    where: { id: passkeyId, userId },
+  })
+
+  return count > 0
+}
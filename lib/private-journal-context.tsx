@@ -0,0 +1,135 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { useAuth } from './auth-context'
+import {
+  createKeyCheck,
+  decryptText,
+  derivePrivateKey,
+  encryptText,
+  generatePrivateKeySalt,
+  verifyKeyCheck,
+} from './encryption'
+import { api } from './trpc/client'
+
+interface PrivateJournalContextType {
+  available: boolean // Private mode is set up for this account
+  key: CryptoKey | null // Set while unlocked; never leaves this page
+  unlock: (passphrase: string) => Promise<boolean>
+  lock: () => void
+  setup: (passphrase: string) => Promise<void>
+  changePassphrase: (current: string, next: string) => Promise<boolean> // False if current is wrong
+}
+
+const PrivateJournalContext = createContext<PrivateJournalContextType | undefined>(undefined)
+
+/**
+ * Holds the private journal key once the passphrase is entered
+ * The key is kept in memory only, so a reload or logout locks private entries again
+ */
+export function PrivateJournalProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const utils = api.useUtils()
+  const [key, setKey] = useState<CryptoKey | null>(null)
+
+  const { data } = api.users.privateJournal.useQuery(undefined, { enabled: !!user })
+  const setupMutation = api.users.setupPrivateJournal.useMutation()
+  const changeMutation = api.users.changePrivatePassphrase.useMutation()
+
+  useEffect(() => {
+    if (!user) {
+      setKey(null)
+    }
+  }, [user])
+
+  const unlock = useCallback(
+    async (passphrase: string) => {
+      if (!data?.salt || !data.keyCheck) {
+        return false
+      }
+
+      const derived = await derivePrivateKey(passphrase, data.salt)
+      if (!(await verifyKeyCheck(derived, data.keyCheck))) {
+        return false
+      }
+
+      setKey(derived)
+      return true
+    },
+    [data],
+  )
+
+  const lock = useCallback(() => setKey(null), [])
+
+  const setup = useCallback(
+    async (passphrase: string) => {
+      const salt = generatePrivateKeySalt()
+      const derived = await derivePrivateKey(passphrase, salt)
+
+      await setupMutation.mutateAsync({ salt, keyCheck: await createKeyCheck(derived) })
+      await utils.users.privateJournal.invalidate()
+      setKey(derived)
+    },
+    [setupMutation.mutateAsync, utils],
+  )
+
+  // Every private entry is decrypted and re-encrypted here; the server never sees either key
+  const changePassphrase = useCallback(
+    async (current: string, next: string) => {
+      if (!data?.salt || !data.keyCheck) {
+        return false
+      }
+
+      const oldKey = await derivePrivateKey(current, data.salt)
+      if (!(await verifyKeyCheck(oldKey, data.keyCheck))) {
+        return false
+      }
+
+      const salt = generatePrivateKeySalt()
+      const newKey = await derivePrivateKey(next, salt)
+      const { entries } = await utils.client.users.privateJournalEntries.query()
+
+      const reencrypt = async (text: string) => {
+        let plaintext: string
+        try {
+          plaintext = await decryptText(text, oldKey)
+        } catch {
+          throw new Error('A private entry could not be decrypted, so the passphrase was kept')
+        }
+        return encryptText(plaintext, newKey)
+      }
+
+      await changeMutation.mutateAsync({
+        currentSalt: data.salt,
+        salt,
+        keyCheck: await createKeyCheck(newKey),
+        entries: await Promise.all(
+          entries.map(async (entry) => ({
+            id: entry.id,
+            entry: await reencrypt(entry.entry),
+            prompt: entry.prompt ? await reencrypt(entry.prompt) : null,
+          })),
+        ),
+      })
+      await Promise.all([utils.users.privateJournal.invalidate(), utils.journal.list.invalidate()])
+      setKey(newKey)
+      return true
+    },
+    [data, changeMutation.mutateAsync, utils],
+  )
+
+  const value = useMemo(
+    () => ({ available: !!data?.salt, key, unlock, lock, setup, changePassphrase }),
+    [data, key, unlock, lock, setup, changePassphrase],
+  )
+
+  return <PrivateJournalContext.Provider value={value}>{children}</PrivateJournalContext.Provider>
+}
+
+export function usePrivateJournal() {
+  const context = useContext(PrivateJournalContext)
+  if (context === undefined) {
+    throw new Error('usePrivateJournal must be used within a PrivateJournalProvider')
+  }
+  return context
+}
@@ -0,0 +1,206 @@
+import crypto from 'node:crypto'
+import type { Prisma } from '@prisma/client'
+import { wrapDataKeyWithPassword } from './account'
+import { hashPassword } from './auth'
+import { deriveWrappingKey, generateKeySalt, unwrapDataKey, wrapDataKey } from './encryption-server'
+import { prisma } from './prisma'
+import type { SessionUser } from './sessions'
+import { verifyLoginSecondFactor } from './two-factor'
+
+/**
+ * One-time recovery codes
+ * Each code wraps the user's journal data key, so a forgotten password can be reset
+ * without losing the journal. A code is burned as soon as it has been used
+ */
+
+const RECOVERY_CODE_COUNT = 8
+const RECOVERY_CODE_LENGTH = 12
+// No 0/o, 1/i/l to keep codes easy to copy by hand
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+
+/**
+ * Strips formatting so "ABCD-efgh-2345" and "abcdefgh2345" are the same code
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+function generateRecoveryCode(): string {
+  let code = ''
+  for (let i = 0; i < RECOVERY_CODE_LENGTH; i++) {
+    code += RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]
+  }
+  // Group as xxxx-xxxx-xxxx for readability
+  return code.match(/.{4}/g)!.join('-')
+}
+
+type RecoveryCodeRow = Pick<
+  Prisma.RecoveryCodeCreateManyInput,
+  'codeHash' | 'salt' | 'wrappedDataKey'
+>
+
+/**
+ * Makes a fresh set of recovery codes, each wrapping the data key
+ * Key derivation is slow, so call this before opening a transaction
+ *
+ * @param dataKey - Base64 journal data key each code will unwrap
+ * @returns The plaintext codes (never stored, shown once) and the rows to save
+ */
+export function generateRecoveryCodes(dataKey: string): {
+  codes: string[]
+  rows: RecoveryCodeRow[]
+} {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+
+  const rows = codes.map((code) => {
+    const salt = generateKeySalt()
+    return {
+      codeHash: hashRecoveryCode(code),
+      salt,
+      wrappedDataKey: wrapDataKey(dataKey, deriveWrappingKey(normalizeRecoveryCode(code), salt)),
+    }
+  })
+
+  return { codes, rows }
+}
+
+/**
+ * Replaces a user's recovery codes with ones from generateRecoveryCodes
+ *
+ * @param tx - Transaction client (or prisma) to write with
+ * @param userId - Owner of the codes
+ */
+export async function saveRecoveryCodes(
+  tx: Prisma.TransactionClient,
+  userId: number,
+  rows: RecoveryCodeRow[],
+): Promise<void> {
+  await tx.recoveryCode.deleteMany({ where: { userId } })
+  await tx.recoveryCode.createMany({
+    data: rows.map((row) => ({ userId, ...row })),
+  })
+}
+
+/**
+ * Replaces a user's recovery codes with a fresh set
+ *
+ * @param tx - Transaction client (or prisma) to write with
+ * @param userId - Owner of the codes
+ * @param dataKey - Base64 journal data key each code will unwrap
+ * @returns The plaintext codes; they are not stored and can only be shown once
+ */
+export async function createRecoveryCodes(
+  tx: Prisma.TransactionClient,
+  userId: number,
+  dataKey: string,
+): Promise<string[]> {
+  const { codes, rows } = generateRecoveryCodes(dataKey)
+  await saveRecoveryCodes(tx, userId, rows)
+  return codes
+}
+
+/**
+ * Counts how many unused recovery codes a user has left
+ */
+export async function countRecoveryCodes(userId: number): Promise<number> {
+  return prisma.recoveryCode.count({
+    where: { userId, usedAt: null },
+  })
+}
+
+/**
+ * Resets a forgotten password with a recovery code
+ * The code unwraps the journal data key, which is then re-wrapped under the new password
+ * Accounts with 2FA also need an authenticator or backup code, as they do to log in
+ *
+ * @returns The user and data key for the cookie, or an error
+ * (twoFactorRequired when the second factor is missing)
+ */
+export async function recoverAccount(
+  email: string,
+  recoveryCode: string,
+  newPassword: string,
+  twoFactorCode?: string,
+): Promise<
+  | { success: true; user: SessionUser; encryptionKey: string; twoFactor: boolean }
+  | { success: false; error: string; twoFactorRequired?: boolean }
+> {
+  const user = await prisma.user.findUnique({
+    where: { email },
+  })
+
+  if (!user) {
+    return { success: false, error: 'Invalid email or recovery code' }
+  }
+
+  const code = await prisma.recoveryCode.findFirst({
+    where: {
+      userId: user.id,
+      codeHash: hashRecoveryCode(recoveryCode),
+      usedAt: null,
+    },
+  })
+
+  if (!code) {
+    return { success: false, error: 'Invalid email or recovery code' }
+  }
+
+  // A recovery code stands in for the password only, never for the second factor
+  const secondFactor = await verifyLoginSecondFactor(user, twoFactorCode)
+
+  if (!secondFactor.success) {
+    return {
+      success: false,
+      error: secondFactor.error,
+      twoFactorRequired: secondFactor.required,
+    }
+  }
+
+  const dataKey = unwrapDataKey(
+    code.wrappedDataKey,
+    deriveWrappingKey(normalizeRecoveryCode(recoveryCode), code.salt),
+  )
+  const passwordHash = await hashPassword(newPassword)
+
+  const burned = await prisma.$transaction(async (tx) => {
+    // Burn the code first; a concurrent reset with the same code gets count 0
+    const { count } = await tx.recoveryCode.updateMany({
+      where: { id: code.id, usedAt: null },
+      data: { usedAt: new Date() },
+    })
+
+    if (count === 0) {
+      return false
+    }
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        passwordHash,
+        ...wrapDataKeyWithPassword(dataKey, newPassword),
+      },
+    })
+
+    return true
+  })
+
+  if (!burned) {
+    return { success: false, error: 'Invalid email or recovery code' }
+  }
+
+  return {
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      isAdmin: user.isAdmin,
+      tokenVersion: user.tokenVersion,
+    },
+    encryptionKey: dataKey,
+    twoFactor: !!user.totpEnabledAt,
+  }
+}
@@ -0,0 +1,145 @@
+import crypto from 'node:crypto'
+import { Prisma, type User } from '@prisma/client'
+import { createUserKeys } from './account'
+import { hashPassword } from './auth'
+import { prisma } from './prisma'
+import { generateRecoveryCodes, saveRecoveryCodes } from './recovery'
+import type { CreateInviteInput, SetupInput } from './schemas'
+
+/**
+ * Invite-only registration
+ * Admins mint single-use invite codes; the very first account on an empty
+ * database needs no invite and becomes admin
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Arbitrary key for the Postgres advisory lock that serializes registrations
+const REGISTRATION_LOCK_KEY = 727_001
+
+function generateInviteCode(): string {
+  return crypto.randomBytes(9).toString('base64url')
+}
+
+/**
+ * Creates a new invite code
+ *
+ * @param createdById - Admin who minted the invite
+ * @param options - Optional email binding, role and expiry
+ */
+export async function createInvite(createdById: number, options: CreateInviteInput) {
+  return prisma.invite.create({
+    data: {
+      code: generateInviteCode(),
+      email: options.email?.toLowerCase(),
+      isAdmin: options.isAdmin,
+      expiresAt: options.expiresInDays
+        ? new Date(Date.now() + options.expiresInDays * DAY_MS)
+        : undefined,
+      createdById,
+    },
+  })
+}
+
+/**
+ * Creates a new account
+ * Requires a valid invite unless this is the first user
+ *
+ * @returns The user, their data key for the cookie and one-time recovery codes, or an error
+ */
+export async function registerUser(
+  input: SetupInput,
+): Promise<
+  | { success: true; user: User; dataKey: string; recoveryCodes: string[] }
+  | { success: false; error: string }
+> {
+  // Check if user with this email already exists
+  const existingUser = await prisma.user.findUnique({
+    where: { email: input.email },
+  })
+
+  if (existingUser) {
+    return { success: false, error: 'Email already registered' }
+  }
+
+  // Hash and derive outside the transaction, they're slow
+  const passwordHash = await hashPassword(input.password)
+  const keys = createUserKeys(input.password)
+  const recoveryCodes = generateRecoveryCodes(keys.dataKey)
+
+  const result = prisma.$transaction(async (tx) => {
+    // Under read committed two concurrent signups could both count zero users and both become
+    // admin, so registrations take turns; the lock is released when the transaction ends
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${REGISTRATION_LOCK_KEY})`
+
+    // The very first account bootstraps the site and becomes admin
+    const isFirstUser = (await tx.user.count()) === 0
+    let isAdmin = isFirstUser
+    let inviteId: number | null = null
+
+    if (!isFirstUser) {
+      if (!input.inviteCode) {
+        return { success: false as const, error: 'An invite code is required' }
+      }
+
+      const invite = await tx.invite.findUnique({
+        where: { code: input.inviteCode.trim() },
+      })
+
+      if (!invite || invite.usedAt || (invite.expiresAt && invite.expiresAt < new Date())) {
+        return { success: false as const, error: 'Invalid or expired invite code' }
+      }
+
+      if (invite.email && invite.email !== input.email.toLowerCase()) {
+        return { success: false as const, error: 'This invite is for a different email' }
+      }
+
+      // Claim the invite before creating anything; a concurrent claim gets count 0
+      const { count } = await tx.invite.updateMany({
+        where: { id: invite.id, usedAt: null },
+        data: { usedAt: new Date() },
+      })
+
+      if (count === 0) {
+        return { success: false as const, error: 'Invalid or expired invite code' }
+      }
+
+      isAdmin = invite.isAdmin
+      inviteId = invite.id
+    }
+
+    const user = await tx.user.create({
+      data: {
+        email: input.email,
+        passwordHash,
+        isAdmin,
+        encryptionSalt: keys.encryptionSalt,
+        wrappedDataKey: keys.wrappedDataKey,
+      },
+    })
+
+    if (inviteId) {
+      await tx.invite.update({
+        where: { id: inviteId },
+        data: { usedById: user.id },
+      })
+    }
+
+    // Recovery codes are returned once so the user can store them
+    await saveRecoveryCodes(tx, user.id, recoveryCodes.rows)
+
+    return {
+      success: true as const,
+      user,
+      dataKey: keys.dataKey,
+      recoveryCodes: recoveryCodes.codes,
+    }
+  })
+
+  return result.catch((error) => {
+    // A concurrent signup took the email after the check above
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { success: false as const, error: 'Email already registered' }
+    }
+    throw error
+  })
+}
@@ -1,3 +1,4 @@
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server'
 import { z } from 'zod'
 
 // ============================================================================
@@ -46,11 +47,145 @@ export const bottleContentSchema = z.object({
 export const loginSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(1, 'Password is required'),
+  twoFactorCode: z.string().optional(), // Authenticator or backup code, when 2FA is on
 })
 
 export const setupSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
+  inviteCode: z.string().optional(), // Not needed for the very first account
+})
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+})
+
+export const recoverAccountSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  recoveryCode: z.string().min(1, 'Recovery code is required'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+  twoFactorCode: z.string().optional(), // Authenticator or backup code, when 2FA is on
+})
+
+export const regenerateRecoveryCodesSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+})
+
+// ============================================================================
+// TWO-FACTOR SCHEMAS
+// ============================================================================
+
+export const beginTwoFactorSetupSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+})
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+})
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().min(1, 'Code is required'),
+})
+
+// ============================================================================
+// PASSKEY SCHEMAS
+// ============================================================================
+
+// WebAuthn responses are verified by @simplewebauthn/server, so only the envelope is checked here
+const isWebAuthnResponse = (value: unknown) =>
+  typeof value === 'object' && value !== null && 'id' in value && 'response' in value
+
+export const registerPasskeySchema = z.object({
+  challengeId: z.string().uuid(),
+  response: z.custom<RegistrationResponseJSON>(isWebAuthnResponse, 'Invalid passkey response'),
+  name: z.string().max(100).optional(),
+})
+
+export const passkeyIdSchema = z.object({
+  id: z.number().int().positive('Invalid passkey ID'),
+})
+
+export const enablePasskeyUnlockSchema = z.object({
+  challengeId: z.string().uuid(),
+  response: z.custom<AuthenticationResponseJSON>(isWebAuthnResponse, 'Invalid passkey response'),
+  prfOutput: z.string().min(1, 'Passkey PRF output is required'), // Base64url
+})
+
+export const passkeyLoginSchema = z.object({
+  challengeId: z.string().uuid(),
+  response: z.custom<AuthenticationResponseJSON>(isWebAuthnResponse, 'Invalid passkey response'),
+  prfOutput: z.string().optional(), // Base64url, missing when the authenticator has no PRF
+})
+
+// ============================================================================
+// INVITE SCHEMAS
+// ============================================================================
+
+export const createInviteSchema = z.object({
+  email: z.string().email('Invalid email format').optional(),
+  isAdmin: z.boolean().default(false),
+  expiresInDays: z.number().int().positive('Expiry must be at least one day').optional(),
+})
+
+// ============================================================================
+// USER SCHEMAS
+// ============================================================================
+
+export const setUserAdminSchema = z.object({
+  userId: z.number().int().positive('Invalid user ID'),
+  isAdmin: z.boolean(),
+})
+
+export const updateDaySettingsSchema = z.object({
+  timeZone: z.string().refine((timeZone) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone })
+      return true
+    } catch {
+      return false
+    }
+  }, 'Unknown time zone'),
+  dayRolloverHour: z.number().int().min(0).max(23),
+})
+
+// ============================================================================
+// AUDIT LOG SCHEMAS
+// ============================================================================
+
+// Everything lib/audit.ts records; kept here so the admin viewer can list them too
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.login_failed',
+  'auth.passkey_login',
+  'auth.logout',
+  'auth.register',
+  'auth.password_changed',
+  'auth.account_recovered',
+  'auth.two_factor_enabled',
+  'auth.two_factor_disabled',
+  'user.role_changed',
+  'invite.created',
+  'bottle.created',
+  'bottle.opened',
+  'image.uploaded',
+  'image.access_granted',
+  'journal.updated',
+  'journal.deleted',
+  'journal.exported',
+  'journal.imported',
+] as const
+
+export const auditActionSchema = z.enum(AUDIT_ACTIONS)
+
+export const listAuditEventsSchema = z.object({
+  actorId: z.number().int().positive('Invalid user ID').optional(),
+  action: auditActionSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.number().int().positive().optional(),
+  limit: z.number().int().min(1).max(100).default(50),
 })
 
 // ============================================================================
@@ -87,13 +222,32 @@ export const bottleIdParamSchema = z.object({
 // JOURNAL SCHEMAS
 // ============================================================================
 
+export const MAX_JOURNAL_TAGS = 10
+
+export const journalTagNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Tag name is required')
+  .max(40, 'Tag names can be at most 40 characters')
+
+const journalTagsSchema = z // Tag names; tags that don't exist yet are created
+  .array(journalTagNameSchema)
+  .max(MAX_JOURNAL_TAGS, `Add at most ${MAX_JOURNAL_TAGS} tags`)
+
 export const createJournalSchema = z.object({
   entry: z.string().min(1, 'Journal entry is required'),
   date: z.coerce.date().optional(),
+  tags: journalTagsSchema.optional(),
 })
 
 export const updateJournalSchema = z.object({
   entry: z.string().min(1, 'Journal entry is required'),
+  tags: journalTagsSchema.optional(), // Replaces the entry's tags; omit to keep them
+  clientEncrypted: z.boolean().optional(), // The text was encrypted in the browser (private entries)
+})
+
+export const journalIdSchema = z.object({
+  id: z.number().int().positive('Invalid journal ID'),
 })
 
 export const journalIdQuerySchema = z.object({
@@ -110,8 +264,145 @@ export const journalIdQuerySchema = z.object({
   }),
 })
 
+const journalTagIdsSchema = z
+  .array(z.number().int().positive('Invalid tag ID'))
+  .max(MAX_JOURNAL_TAGS, `Filter by at most ${MAX_JOURNAL_TAGS} tags`)
+
+export const listJournalSchema = z.object({
+  cursor: z // "<ISO date>_<id>" of the last entry on the previous page
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z_\d+$/, 'Invalid cursor')
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  tagIds: z // Only entries with all of these tags (comma-separated in a query string)
+    .union([
+      journalTagIdsSchema,
+      z
+        .string()
+        .transform((ids) => ids.split(',').map(Number))
+        .pipe(journalTagIdsSchema),
+    ])
+    .optional(),
+})
+
+export const journalTagIdSchema = z.object({
+  id: z.number().int().positive('Invalid tag ID'),
+})
+
+export const renameJournalTagSchema = z.object({
+  id: z.number().int().positive('Invalid tag ID'),
+  name: journalTagNameSchema,
+})
+
+export const mergeJournalTagsSchema = z
+  .object({
+    sourceId: z.number().int().positive('Invalid tag ID'), // Removed after the merge
+    targetId: z.number().int().positive('Invalid tag ID'),
+  })
+  .refine((data) => data.sourceId !== data.targetId, {
+    message: "Can't merge a tag into itself",
+    path: ['targetId'],
+  })
+
+export const journalSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(200),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  linked: z.enum(['true', 'false']).optional(), // Only entries with (or without) a bottle open
+})
+
+export const JOURNAL_EXPORT_FORMATS = ['md', 'json', 'zip'] as const
+
+export const journalExportQuerySchema = z.object({
+  format: z.enum(JOURNAL_EXPORT_FORMATS).default('zip'),
+})
+
+export const MAX_JOURNAL_IMPORT_SIZE = 25 * 1024 * 1024 // Characters across all files at once
+
+export const importJournalSchema = z.object({
+  files: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(255),
+        content: z.string().max(5 * 1024 * 1024, 'Each file must be smaller than 5MB'),
+      }),
+    )
+    .min(1, 'Choose at least one file')
+    .max(1000, 'Import at most 1000 files at once')
+    .refine(
+      (files) =>
+        files.reduce((total, file) => total + file.content.length, 0) <= MAX_JOURNAL_IMPORT_SIZE,
+      'Import at most 25MB at once',
+    ),
+  dryRun: z.boolean().default(true), // Only preview what would be imported
+})
+
+export const saveJournalDraftSchema = z.object({
+  entry: z.string().max(100_000, 'Draft is too long'), // Empty clears the draft
+})
+
+export const moodTimelineQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(260).default(26),
+})
+
+export const MAX_JOURNAL_IMAGES = 6
+
+// Raster formats only: SVG can carry scripts and would run when the photo is opened directly
+export const JOURNAL_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/heic',
+] as const
+
 export const submitJournalSchema = z.object({
   entry: z.string().min(1, 'Journal entry is required'),
+  images: z // IDs from /api/journal/images
+    .array(z.string())
+    .max(MAX_JOURNAL_IMAGES, `Attach at most ${MAX_JOURNAL_IMAGES} photos`)
+    .default([]),
+  tags: journalTagsSchema.default([]),
+  prompt: z.string().trim().max(500).optional(), // Writing prompt the entry answers
+})
+
+// Text encrypted in the browser by lib/encryption.ts: base64 of IV + ciphertext, opaque to the server
+const clientCiphertextSchema = z
+  .string()
+  .min(1, 'Journal entry is required')
+  .max(200_000, 'Journal entry is too long')
+  .regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Expected text encrypted in the browser')
+
+export const submitPrivateJournalSchema = z.object({
+  entry: clientCiphertextSchema,
+  prompt: clientCiphertextSchema.optional(),
+  // Plaintext the user chose to share; bottles are picked from it instead of the entry
+  mood: z
+    .string()
+    .trim()
+    .min(1, 'Describe the mood so a bottle can be picked')
+    .max(200, 'Keep the mood under 200 characters'),
+})
+
+const privateKeySaltSchema = z.string().regex(/^[A-Za-z0-9+/]{22}==$/, 'Invalid key salt') // 16 bytes, base64
+
+export const setupPrivateJournalSchema = z.object({
+  salt: privateKeySaltSchema,
+  keyCheck: clientCiphertextSchema, // A known value encrypted with the new key
+})
+
+export const changePrivatePassphraseSchema = z.object({
+  currentSalt: privateKeySaltSchema, // Salt the entries were decrypted with, to catch a concurrent change
+  salt: privateKeySaltSchema,
+  keyCheck: clientCiphertextSchema,
+  // Every private entry, re-encrypted in the browser with the new key
+  entries: z.array(
+    z.object({
+      id: z.number().int().positive(),
+      entry: clientCiphertextSchema,
+      prompt: clientCiphertextSchema.nullable(),
+    }),
+  ),
 })
 
 // ============================================================================
@@ -141,8 +432,22 @@ export type BottleContent = z.infer<typeof bottleContentSchema>
 
 export type LoginInput = z.infer<typeof loginSchema>
 export type SetupInput = z.infer<typeof setupSchema>
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>
+export type RecoverAccountInput = z.infer<typeof recoverAccountSchema>
+export type CreateInviteInput = z.infer<typeof createInviteSchema>
+export type UpdateDaySettingsInput = z.infer<typeof updateDaySettingsSchema>
+export type AuditAction = z.infer<typeof auditActionSchema>
+export type ListAuditEventsInput = z.infer<typeof listAuditEventsSchema>
 export type CreateBottleInput = z.infer<typeof createBottleSchema>
 export type OpenBottleInput = z.infer<typeof openBottleSchema>
 export type CreateJournalInput = z.infer<typeof createJournalSchema>
 export type UpdateJournalInput = z.infer<typeof updateJournalSchema>
+export type ListJournalInput = z.infer<typeof listJournalSchema>
+export type RenameJournalTagInput = z.infer<typeof renameJournalTagSchema>
+export type MergeJournalTagsInput = z.infer<typeof mergeJournalTagsSchema>
+export type JournalSearchQuery = z.infer<typeof journalSearchQuerySchema>
+export type JournalExportFormat = (typeof JOURNAL_EXPORT_FORMATS)[number]
+export type ImportJournalInput = z.infer<typeof importJournalSchema>
+export type SaveJournalDraftInput = z.infer<typeof saveJournalDraftSchema>
 export type SubmitJournalInput = z.infer<typeof submitJournalSchema>
+export type SubmitPrivateJournalInput = z.infer<typeof submitPrivateJournalSchema>
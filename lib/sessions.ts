@@ -0,0 +1,317 @@
+import { generateToken, type JWTPayload } from './auth'
+import { CSRF_COOKIE, generateCsrfToken } from './csrf'
+import { prisma } from './prisma'
+
+/**
+ * Server-side sessions and auth cookies
+ * Every issued token carries a session ID that must still be active in the database,
+ * so a session can be revoked before its JWT expires. All auth entry points (REST and
+ * tRPC) issue and clear cookies through here so lifetimes and attributes match
+ *
+ * The token slides: once half its lifetime has passed it is reissued on the next
+ * request, so it only expires after AUTH_TOKEN_TTL_SECONDS of inactivity. The session
+ * caps the total lifetime at AUTH_SESSION_TTL_SECONDS, after which a new login is needed
+ */
+
+const DAY_SECONDS = 24 * 60 * 60
+const TOKEN_TTL_SECONDS = Number(process.env.AUTH_TOKEN_TTL_SECONDS) || 7 * DAY_SECONDS
+const SESSION_TTL_SECONDS = Number(process.env.AUTH_SESSION_TTL_SECONDS) || 30 * DAY_SECONDS
+const RENEW_AFTER_SECONDS = TOKEN_TTL_SECONDS / 2
+const LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000 // Only write lastSeenAt every 5 minutes
+
+export interface SessionUser {
+  id: number
+  email: string
+  isAdmin: boolean
+  tokenVersion: number
+}
+
+export interface RequestMeta {
+  userAgent: string | null
+  ipAddress: string | null
+  origin: string | null // e.g. https://example.com, used as the WebAuthn origin
+}
+
+/**
+ * Extracts device info from request headers
+ */
+export function getRequestMeta(headers: Headers): RequestMeta {
+  const forwardedFor = headers.get('x-forwarded-for')
+  const ipAddress = forwardedFor?.split(',')[0]?.trim() || headers.get('x-real-ip')
+
+  return {
+    userAgent: headers.get('user-agent'),
+    ipAddress: ipAddress || null,
+    origin: headers.get('origin'),
+  }
+}
+
+/**
+ * Creates a new session for a user
+ *
+ * @returns The session ID to embed in the token
+ */
+export async function createSession(userId: number, meta: RequestMeta): Promise<string> {
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      userAgent: meta.userAgent,
+      ipAddress: meta.ipAddress,
+      expiresAt: new Date(Date.now() + SESSION_TTL_SECONDS * 1000),
+    },
+  })
+
+  return session.id
+}
+
+/**
+ * Builds a Set-Cookie value with the attributes every auth cookie shares
+ *
+ * @param httpOnly - false only for the CSRF cookie, which the client must read
+ */
+function serializeCookie(
+  name: string,
+  value: string,
+  maxAgeSeconds: number,
+  httpOnly = true,
+): string {
+  const httpOnlyFlag = httpOnly ? '; HttpOnly' : ''
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : ''
+  return `${name}=${encodeURIComponent(value)}${httpOnlyFlag}${secure}; SameSite=Lax; Path=/; Max-Age=${maxAgeSeconds}`
+}
+
+function setCsrfCookie(resHeaders: Headers): void {
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(CSRF_COOKIE, generateCsrfToken(), SESSION_TTL_SECONDS, false),
+  )
+}
+
+/**
+ * Issues a fresh token for an existing session and sets the auth cookies
+ * Used after login and whenever the token's claims change or it is renewed
+ *
+ * @param resHeaders - Response headers to append Set-Cookie to (NextResponse or tRPC)
+ * @param options.encryptionKey - Journal data key to (re)set alongside the token, if any
+ */
+export function setAuthCookies(
+  resHeaders: Headers,
+  user: SessionUser,
+  options: { sessionId: string; twoFactor: boolean; encryptionKey?: string | null },
+): void {
+  const token = generateToken(
+    {
+      userId: user.id,
+      email: user.email,
+      isAdmin: user.isAdmin,
+      sessionId: options.sessionId,
+      tokenVersion: user.tokenVersion,
+      twoFactor: options.twoFactor,
+    },
+    TOKEN_TTL_SECONDS,
+  )
+
+  resHeaders.append('Set-Cookie', serializeCookie('token', token, TOKEN_TTL_SECONDS))
+
+  // The key cookie lives exactly as long as the token so they expire together
+  if (options.encryptionKey) {
+    resHeaders.append(
+      'Set-Cookie',
+      serializeCookie('encryptionKey', options.encryptionKey, TOKEN_TTL_SECONDS),
+    )
+  }
+}
+
+/**
+ * Starts a new session and sets the auth cookies
+ *
+ * @returns The new session ID
+ */
+export async function startSession(
+  resHeaders: Headers,
+  user: SessionUser,
+  meta: RequestMeta,
+  options: { encryptionKey: string; twoFactor?: boolean },
+): Promise<string> {
+  const sessionId = await createSession(user.id, meta)
+
+  setAuthCookies(resHeaders, user, {
+    sessionId,
+    twoFactor: options.twoFactor ?? false,
+    encryptionKey: options.encryptionKey,
+  })
+
+  // Fresh CSRF token per session; it outlives token renewals
+  setCsrfCookie(resHeaders)
+
+  return sessionId
+}
+
+/**
+ * Expires the auth cookies
+ */
+export function clearAuthCookies(resHeaders: Headers): void {
+  resHeaders.append('Set-Cookie', serializeCookie('token', '', 0))
+  resHeaders.append('Set-Cookie', serializeCookie('encryptionKey', '', 0))
+  resHeaders.append('Set-Cookie', serializeCookie(CSRF_COOKIE, '', 0, false))
+}
+
+/**
+ * Issues a CSRF cookie to a signed-in client that lacks one
+ * (sessions started before CSRF protection, or a cleared cookie)
+ */
+export function ensureCsrfCookie(resHeaders: Headers, csrfCookie: string | null | undefined): void {
+  if (!csrfCookie) {
+    setCsrfCookie(resHeaders)
+  }
+}
+
+/**
+ * Reissues the token if more than half of its lifetime has passed (sliding renewal)
+ * Call after the session and token version have been validated
+ *
+ * @param isAdmin - Current admin flag from the database
+ */
+export function renewAuthCookiesIfNeeded(
+  resHeaders: Headers,
+  payload: JWTPayload,
+  isAdmin: boolean,
+  encryptionKey: string | null | undefined,
+): void {
+  if (!payload.exp) {
+    return
+  }
+
+  const remainingSeconds = payload.exp - Date.now() / 1000
+  if (remainingSeconds > TOKEN_TTL_SECONDS - RENEW_AFTER_SECONDS) {
+    return
+  }
+
+  setAuthCookies(
+    resHeaders,
+    {
+      id: payload.userId,
+      email: payload.email,
+      isAdmin,
+      tokenVersion: payload.tokenVersion ?? 0,
+    },
+    { sessionId: payload.sessionId, twoFactor: !!payload.twoFactor, encryptionKey },
+  )
+}
+
+/**
+ * Checks that a session is active and belongs to the user
+ * Refreshes lastSeenAt and IP address at most every few minutes
+ */
+export async function validateSession(
+  sessionId: string | undefined,
+  userId: number,
+  meta: RequestMeta,
+): Promise<boolean> {
+  // Tokens issued before sessions existed carry no session ID
+  if (!sessionId) {
+    return false
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+  })
+
+  if (
+    !session ||
+    session.userId !== userId ||
+    session.revokedAt ||
+    session.expiresAt < new Date()
+  ) {
+    return false
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_THROTTLE_MS) {
+    await prisma.session.update({
+      where: { id: session.id },
+      data: {
+        lastSeenAt: new Date(),
+        ipAddress: meta.ipAddress ?? session.ipAddress,
+      },
+    })
+  }
+
+  return true
+}
+
+/**
+ * Revokes one of a user's sessions
+ *
+ * @returns true if a session was revoked
+ */
+export async function revokeSession(userId: number, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+
+  return count > 0
+}
+
+/**
+ * Revokes all of a user's sessions, optionally keeping one
+ *
+ * @param exceptSessionId - Session to keep active (e.g. the current device)
+ */
+export async function revokeAllSessions(userId: number, exceptSessionId?: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  })
+}
+
+/**
+ * Lists a user's active sessions, most recently used first
+ */
+export async function listActiveSessions(userId: number) {
+  return prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { lastSeenAt: 'desc' },
+  })
+}
+
+/**
+ * Turns a user agent string into a short device label like "Safari on iOS"
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device'
+  }
+
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Firefox\//.test(userAgent)
+      ? 'Firefox'
+      : /Chrome\//.test(userAgent)
+        ? 'Chrome'
+        : /Safari\//.test(userAgent)
+          ? 'Safari'
+          : 'Browser'
+
+  const os = /iPhone|iPad/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+      ? 'Android'
+      : /Mac OS X/.test(userAgent)
+        ? 'macOS'
+        : /Windows/.test(userAgent)
+          ? 'Windows'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : 'unknown OS'
+
+  return `${browser} on ${os}`
+}
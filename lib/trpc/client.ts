@@ -1,4 +1,5 @@
 import { createTRPCReact } from '@trpc/react-query'
+import { CSRF_HEADER, readCsrfToken } from '@/lib/csrf'
 import type { AppRouter } from './router'
 
 /**
@@ -18,3 +19,12 @@ import type { AppRouter } from './router'
  * ```
  */
 export const api = createTRPCReact<AppRouter>()
+
+/**
+ * Headers for every tRPC request
+ * Mutations from a signed-in browser must echo the CSRF cookie
+ */
+export function trpcHeaders(): Record<string, string> {
+  const csrfToken = readCsrfToken()
+  return csrfToken ? { [CSRF_HEADER]: csrfToken } : {}
+}
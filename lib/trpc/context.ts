@@ -1,57 +1,111 @@
 import type { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch'
 import { verifyToken } from '@/lib/auth'
+import { checkTokenVersion } from '@/lib/auth-state'
+import { CSRF_COOKIE } from '@/lib/csrf'
+import {
+  ensureCsrfCookie,
+  getRequestMeta,
+  type RequestMeta,
+  renewAuthCookiesIfNeeded,
+  validateSession,
+} from '@/lib/sessions'
+import { effectiveIsAdmin } from '@/lib/two-factor'
 
 export interface AuthenticatedUser {
   id: number
   email: string
   isAdmin: boolean
+  sessionId: string
+  twoFactor: boolean
 }
 
 export interface Context {
   user: AuthenticatedUser | null
   resHeaders: Headers
+  requestMeta: RequestMeta
+  encryptionKey: string | null // Journal data key from the HTTP-only cookie
+}
+
+/**
+ * Parses a Cookie header into name/value pairs
+ */
+export function parseCookies(cookieHeader: string | null): Record<string, string> {
+  if (!cookieHeader) {
+    return {}
+  }
+
+  return Object.fromEntries(
+    cookieHeader.split('; ').map((cookie) => {
+      const [key, ...valueParts] = cookie.split('=')
+      const value = valueParts.join('=')
+      // Values are URI-encoded when set; fall back to the raw value if that fails
+      try {
+        return [key, decodeURIComponent(value)]
+      } catch {
+        return [key, value]
+      }
+    }),
+  )
 }
 
 /**
  * Creates context for tRPC procedures
- * Extracts user from HTTP-only cookie token
- * Provides access to response headers for setting cookies
+ * Extracts user from HTTP-only cookie token and checks its session and token version
+ * Provides access to response headers for setting cookies and to the journal data key
  */
 export async function createContext(opts: FetchCreateContextFnOptions): Promise<Context> {
   const { req, resHeaders } = opts
+  const requestMeta = getRequestMeta(req.headers)
 
   // Extract token from HTTP-only cookie
   const cookieHeader = req.headers.get('cookie')
   if (!cookieHeader) {
-    return { user: null, resHeaders }
+    return { user: null, resHeaders, requestMeta, encryptionKey: null }
   }
 
   // Parse cookie header to find token
-  const cookies = Object.fromEntries(
-    cookieHeader.split('; ').map((cookie) => {
-      const [key, ...valueParts] = cookie.split('=')
-      return [key, valueParts.join('=')]
-    })
-  )
+  const cookies = parseCookies(cookieHeader)
+
+  const encryptionKey = cookies.encryptionKey || null
 
   const token = cookies.token
   if (!token) {
-    return { user: null, resHeaders }
+    return { user: null, resHeaders, requestMeta, encryptionKey }
   }
 
   // Verify JWT token
   const payload = verifyToken(token)
   if (!payload) {
-    return { user: null, resHeaders }
+    return { user: null, resHeaders, requestMeta, encryptionKey }
   }
 
+  // Check the session hasn't been revoked
+  const isActive = await validateSession(payload.sessionId, payload.userId, requestMeta)
+  if (!isActive) {
+    return { user: null, resHeaders, requestMeta, encryptionKey }
+  }
+
+  // Check the account still exists and the token doesn't predate a role change
+  const current = await checkTokenVersion(payload)
+  if (!current) {
+    return { user: null, resHeaders, requestMeta, encryptionKey }
+  }
+
+  // Keep active users signed in; procedures that set cookies later override this
+  renewAuthCookiesIfNeeded(resHeaders, payload, current.isAdmin, encryptionKey)
+  ensureCsrfCookie(resHeaders, cookies[CSRF_COOKIE])
+
   return {
     user: {
       id: payload.userId,
       email: payload.email,
-      isAdmin: payload.isAdmin,
+      isAdmin: effectiveIsAdmin(current.isAdmin, payload.twoFactor),
+      sessionId: payload.sessionId,
+      twoFactor: !!payload.twoFactor,
     },
     resHeaders,
+    requestMeta,
+    encryptionKey,
   }
 }
 
@@ -1,10 +1,21 @@
 import { initTRPC, TRPCError } from '@trpc/server'
+import { LoginLockedError } from '@/lib/login-throttle'
 import type { TRPCContext } from './context'
 
 /**
  * Initialize tRPC with context
+ * Login lockouts add { code: 'LOGIN_LOCKED', retryAfter } to the error data
  */
-const t = initTRPC.context<TRPCContext>().create()
+const t = initTRPC.context<TRPCContext>().create({
+  errorFormatter({ shape, error }) {
+    const lockout =
+      error.cause instanceof LoginLockedError
+        ? { code: error.cause.code, retryAfter: error.cause.retryAfter }
+        : null
+
+    return { ...shape, data: { ...shape.data, lockout } }
+  },
+})
 
 /**
  * Base exports
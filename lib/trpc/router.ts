@@ -1,6 +1,13 @@
 import { router } from './init'
+import { auditRouter } from './routers/audit'
 import { authRouter } from './routers/auth'
 import { bottlesRouter } from './routers/bottles'
+import { invitesRouter } from './routers/invites'
+import { journalRouter } from './routers/journal'
+import { passkeysRouter } from './routers/passkeys'
+import { sessionsRouter } from './routers/sessions'
+import { tagsRouter } from './routers/tags'
+import { twoFactorRouter } from './routers/two-factor'
 import { usersRouter } from './routers/users'
 
 /**
@@ -8,8 +15,15 @@ import { usersRouter } from './routers/users'
  * Combines all feature routers
  */
 export const appRouter = router({
+  audit: auditRouter,
   auth: authRouter,
   bottles: bottlesRouter,
+  invites: invitesRouter,
+  journal: journalRouter,
+  passkeys: passkeysRouter,
+  sessions: sessionsRouter,
+  tags: tagsRouter,
+  twoFactor: twoFactorRouter,
   users: usersRouter,
 })
 
@@ -0,0 +1,16 @@
+import { listAuditEvents } from '@/lib/audit'
+import { listAuditEventsSchema } from '@/lib/schemas'
+import { adminProcedure, router } from '../init'
+
+/**
+ * Audit router
+ * Lets admins browse the security audit log
+ */
+export const auditRouter = router({
+  /**
+   * List audit events, newest first, filtered by actor, action and time range (admin only)
+   */
+  list: adminProcedure.input(listAuditEventsSchema).query(async ({ input }) => {
+    return listAuditEvents(input)
+  }),
+})
@@ -1,9 +1,30 @@
 import { TRPCError } from '@trpc/server'
-import { router, publicProcedure } from '../init'
-import { loginSchema, setupSchema } from '@/lib/schemas'
-import { generateToken, verifyPassword, hashPassword } from '@/lib/auth'
-import { deriveEncryptionKey } from '@/lib/encryption-server'
+import { router, publicProcedure, protectedProcedure } from '../init'
+import {
+  changePasswordSchema,
+  loginSchema,
+  recoverAccountSchema,
+  regenerateRecoveryCodesSchema,
+  setupSchema,
+} from '@/lib/schemas'
+import { changePassword, unlockDataKey } from '@/lib/account'
+import { recordAuditEvent } from '@/lib/audit'
+import { verifyPassword } from '@/lib/auth'
+import {
+  claimLoginAttempt,
+  clearLoginFailures,
+  LoginLockedError,
+  refundLoginAttempt,
+} from '@/lib/login-throttle'
 import { prisma } from '@/lib/prisma'
+import { countRecoveryCodes, createRecoveryCodes, recoverAccount } from '@/lib/recovery'
+import { registerUser } from '@/lib/registration'
+import { revokeAllSessions, setAuthCookies, startSession } from '@/lib/sessions'
+import {
+  effectiveIsAdmin,
+  isAdminTwoFactorRequired,
+  verifyLoginSecondFactor,
+} from '@/lib/two-factor'
 
 /**
  * Auth router
@@ -13,90 +34,223 @@ export const authRouter = router({
   /**
    * Login endpoint
    * Returns user info and sets HTTP-only cookies for token and encryption key
+   * Accounts with 2FA get { twoFactorRequired: true } until the code is sent along
    */
   login: publicProcedure.input(loginSchema).mutation(async ({ input, ctx }) => {
+    // Refuse early while the account or IP is locked out; otherwise this attempt counts
+    // as a failure until it succeeds
+    const throttle = await claimLoginAttempt(input.email, ctx.requestMeta.ipAddress)
+
+    if (!throttle.allowed) {
+      const cause = new LoginLockedError(throttle.retryAfterSeconds)
+      throw new TRPCError({ code: 'TOO_MANY_REQUESTS', message: cause.message, cause })
+    }
+
     // Get the user by email
     const user = await prisma.user.findUnique({
       where: { email: input.email },
     })
 
-    if (!user) {
+    // Verify password
+    const isValid = user ? await verifyPassword(input.password, user.passwordHash) : false
+
+    if (!user || !isValid) {
+      await recordAuditEvent({
+        action: 'auth.login_failed',
+        actorId: user?.id ?? null,
+        metadata: { email: input.email, reason: 'password' },
+        meta: ctx.requestMeta,
+      })
       throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid email or password' })
     }
 
-    // Verify password
-    const isValid = await verifyPassword(input.password, user.passwordHash)
+    // Second step for accounts with two-factor authentication
+    const secondFactor = await verifyLoginSecondFactor(user, input.twoFactorCode)
 
-    if (!isValid) {
-      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid email or password' })
+    if (!secondFactor.success) {
+      if (secondFactor.required) {
+        // Not a failure; the client asks for a code and calls login again
+        await refundLoginAttempt(input.email, ctx.requestMeta.ipAddress)
+        return { success: false as const, twoFactorRequired: true as const }
+      }
+      await recordAuditEvent({
+        action: 'auth.login_failed',
+        actorId: user.id,
+        metadata: { email: input.email, reason: 'two_factor' },
+        meta: ctx.requestMeta,
+      })
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: secondFactor.error })
     }
 
-    // Generate JWT token and encryption key
-    const token = generateToken(user.id, user.email, user.isAdmin)
-    const encryptionKey = deriveEncryptionKey(input.password)
+    await clearLoginFailures(input.email, ctx.requestMeta.ipAddress)
 
-    // ✅ Set HTTP-only cookies using response headers
-    ctx.resHeaders.append(
-      'Set-Cookie',
-      `token=${token}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${60 * 60 * 24 * 7}` // 7 days
-    )
-    ctx.resHeaders.append(
-      'Set-Cookie',
-      `encryptionKey=${encryptionKey}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${60 * 60 * 24 * 7}`
-    )
+    // Unwrap the journal data key, start a session and set HTTP-only cookies
+    const twoFactor = !!user.totpEnabledAt
+    const encryptionKey = await unlockDataKey(user, input.password)
+    await startSession(ctx.resHeaders, user, ctx.requestMeta, { encryptionKey, twoFactor })
+
+    await recordAuditEvent({
+      action: 'auth.login',
+      actorId: user.id,
+      metadata: { twoFactor },
+      meta: ctx.requestMeta,
+    })
 
     return {
-      success: true,
+      success: true as const,
       email: user.email,
-      isAdmin: user.isAdmin,
+      isAdmin: effectiveIsAdmin(user.isAdmin, twoFactor),
+      // Admins must enable 2FA before they get admin access back
+      twoFactorSetupRequired: user.isAdmin && !twoFactor && isAdminTwoFactorRequired(),
     }
   }),
 
   /**
    * Setup/register new user
+   * Requires an invite code unless the database is empty (first user becomes admin)
    * Creates account and returns user info with cookies
    */
   setup: publicProcedure.input(setupSchema).mutation(async ({ input, ctx }) => {
-    // Check if user with this email already exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email: input.email },
-    })
+    // Create the account (invite required unless this is the first user)
+    const result = await registerUser(input)
 
-    if (existingUser) {
-      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Email already registered' })
+    if (!result.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: result.error })
     }
 
-    // Create the user with hashed password
-    const passwordHash = await hashPassword(input.password)
-    const user = await prisma.user.create({
-      data: {
-        email: input.email,
-        passwordHash,
-        isAdmin: false,
-      },
+    const { user, recoveryCodes } = result
+
+    // Start a session and set HTTP-only cookies
+    await startSession(ctx.resHeaders, user, ctx.requestMeta, { encryptionKey: result.dataKey })
+
+    await recordAuditEvent({
+      action: 'auth.register',
+      actorId: user.id,
+      metadata: { isAdmin: user.isAdmin },
+      meta: ctx.requestMeta,
     })
 
-    // Generate JWT token and encryption key
-    const token = generateToken(user.id, user.email, user.isAdmin)
-    const encryptionKey = deriveEncryptionKey(input.password)
+    return {
+      success: true,
+      email: user.email,
+      isAdmin: effectiveIsAdmin(user.isAdmin, false),
+      recoveryCodes,
+    }
+  }),
 
-    // ✅ Set HTTP-only cookies using response headers
-    ctx.resHeaders.append(
-      'Set-Cookie',
-      `token=${token}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${60 * 60 * 24 * 7}` // 7 days
-    )
-    ctx.resHeaders.append(
-      'Set-Cookie',
-      `encryptionKey=${encryptionKey}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${60 * 60 * 24 * 7}`
+  /**
+   * Change password
+   * Re-wraps the journal data key under the new password and reissues cookies
+   */
+  changePassword: protectedProcedure
+    .input(changePasswordSchema)
+    .mutation(async ({ input, ctx }) => {
+      const result = await changePassword(ctx.user.id, input.currentPassword, input.newPassword)
+
+      if (!result.success) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: result.error })
+      }
+
+      // Keep this device signed in and log out every other one
+      await revokeAllSessions(ctx.user.id, ctx.user.sessionId)
+
+      // Reissue cookies for the new credentials
+      setAuthCookies(ctx.resHeaders, result.user, {
+        sessionId: ctx.user.sessionId,
+        twoFactor: ctx.user.twoFactor,
+        encryptionKey: result.encryptionKey,
+      })
+
+      await recordAuditEvent({
+        action: 'auth.password_changed',
+        actorId: ctx.user.id,
+        meta: ctx.requestMeta,
+      })
+
+      return { success: true }
+    }),
+
+  /**
+   * Reset a forgotten password with a one-time recovery code
+   * Burns the code, re-wraps the journal data key and logs the user in
+   * Accounts with 2FA get { twoFactorRequired: true } until the code is sent along
+   */
+  recover: publicProcedure.input(recoverAccountSchema).mutation(async ({ input, ctx }) => {
+    // Wrong recovery or two-factor codes count towards the login lockout
+    const throttle = await claimLoginAttempt(input.email, ctx.requestMeta.ipAddress)
+
+    if (!throttle.allowed) {
+      const cause = new LoginLockedError(throttle.retryAfterSeconds)
+      throw new TRPCError({ code: 'TOO_MANY_REQUESTS', message: cause.message, cause })
+    }
+
+    const result = await recoverAccount(
+      input.email,
+      input.recoveryCode,
+      input.newPassword,
+      input.twoFactorCode,
     )
 
+    if (!result.success) {
+      if (result.twoFactorRequired) {
+        // The client asks for a code and calls recover again
+        await refundLoginAttempt(input.email, ctx.requestMeta.ipAddress)
+        return { success: false as const, twoFactorRequired: true as const }
+      }
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: result.error })
+    }
+
+    await clearLoginFailures(input.email, ctx.requestMeta.ipAddress)
+
+    // Whoever had the old password may still be signed in somewhere
+    await revokeAllSessions(result.user.id)
+
+    // Start a new session and set HTTP-only cookies
+    const { user, encryptionKey, twoFactor } = result
+    await startSession(ctx.resHeaders, user, ctx.requestMeta, { encryptionKey, twoFactor })
+
+    await recordAuditEvent({
+      action: 'auth.account_recovered',
+      actorId: user.id,
+      meta: ctx.requestMeta,
+    })
+
     return {
-      success: true,
+      success: true as const,
       email: user.email,
-      isAdmin: user.isAdmin,
+      isAdmin: effectiveIsAdmin(user.isAdmin, twoFactor),
     }
   }),
 
+  /**
+   * Number of unused recovery codes for the current user
+   */
+  recoveryStatus: protectedProcedure.query(async ({ ctx }) => {
+    const remaining = await countRecoveryCodes(ctx.user.id)
+    return { remaining }
+  }),
+
+  /**
+   * Replace all recovery codes with a fresh set
+   * Requires the password, which is also what unlocks the data key to wrap
+   */
+  regenerateRecoveryCodes: protectedProcedure
+    .input(regenerateRecoveryCodesSchema)
+    .mutation(async ({ input, ctx }) => {
+      const user = await prisma.user.findUnique({
+        where: { id: ctx.user.id },
+      })
+
+      if (!user || !(await verifyPassword(input.password, user.passwordHash))) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Password is incorrect' })
+      }
+
+      const dataKey = await unlockDataKey(user, input.password)
+      const recoveryCodes = await createRecoveryCodes(prisma, user.id, dataKey)
+
+      return { recoveryCodes }
+    }),
+
   /**
    * Check if setup is complete
    * Returns true if at least one user exists
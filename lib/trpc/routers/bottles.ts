@@ -1,6 +1,8 @@
 import { TRPCError } from '@trpc/server'
 import { z } from 'zod'
 import { router, protectedProcedure, adminProcedure } from '../init'
+import { recordAuditEvent } from '@/lib/audit'
+import { getUserDailyWindow } from '@/lib/daily-window'
 import { prisma } from '@/lib/prisma'
 import { createBottleSchema, openBottleSchema } from '@/lib/schemas'
 import { generateMoodAndEmbedding } from '@/lib/openai'
@@ -103,7 +105,7 @@ export const bottlesRouter = router({
    * Create a new bottle (admin only)
    * Validates content structure and generates mood/embedding
    */
-  create: adminProcedure.input(createBottleSchema).mutation(async ({ input }) => {
+  create: adminProcedure.input(createBottleSchema).mutation(async ({ ctx, input }) => {
     // Verify the assigned viewer exists
     const assignedUser = await prisma.user.findUnique({
       where: { id: input.assignedViewerId },
@@ -135,6 +137,14 @@ export const bottlesRouter = router({
       WHERE id = ${bottle.id}
     `
 
+    await recordAuditEvent({
+      action: 'bottle.created',
+      actorId: ctx.user.id,
+      target: { type: 'bottle', id: bottle.id },
+      metadata: { assignedViewerId: bottle.assignedViewerId },
+      meta: ctx.requestMeta,
+    })
+
     return {
       id: bottle.id,
       name: bottle.name,
@@ -182,17 +192,15 @@ export const bottlesRouter = router({
 
     // Only enforce daily limit for non-admin users
     if (!ctx.user.isAdmin) {
-      const today = new Date()
-      today.setHours(0, 0, 0, 0)
-      const tomorrow = new Date(today)
-      tomorrow.setDate(tomorrow.getDate() + 1)
+      // "Today" in the user's time zone, starting at their rollover hour
+      const today = await getUserDailyWindow(ctx.user.id)
 
       const openedToday = await prisma.bottleOpen.findFirst({
         where: {
           userId: ctx.user.id,
           openedAt: {
-            gte: today,
-            lt: tomorrow,
+            gte: today.start,
+            lt: today.end,
           },
         },
       })
@@ -226,6 +234,14 @@ export const bottlesRouter = router({
       return { bottleOpen, journalEntry }
     })
 
+    await recordAuditEvent({
+      action: 'bottle.opened',
+      actorId: ctx.user.id,
+      target: { type: 'bottle', id: bottle.id },
+      metadata: { journalId: result.journalEntry.id },
+      meta: ctx.requestMeta,
+    })
+
     return {
       id: bottle.id,
       content: bottle.content,
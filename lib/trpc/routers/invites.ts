@@ -0,0 +1,69 @@
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import { recordAuditEvent } from '@/lib/audit'
+import { prisma } from '@/lib/prisma'
+import { createInvite } from '@/lib/registration'
+import { createInviteSchema } from '@/lib/schemas'
+import { adminProcedure, router } from '../init'
+
+/**
+ * Invites router
+ * Admins mint and manage registration invite codes
+ */
+export const invitesRouter = router({
+  /**
+   * List all invites, newest first (admin only)
+   */
+  list: adminProcedure.query(async () => {
+    const invites = await prisma.invite.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        usedBy: {
+          select: { email: true },
+        },
+      },
+    })
+
+    return { invites }
+  }),
+
+  /**
+   * Mint a new single-use invite (admin only)
+   */
+  create: adminProcedure.input(createInviteSchema).mutation(async ({ ctx, input }) => {
+    const invite = await createInvite(ctx.user.id, input)
+
+    await recordAuditEvent({
+      action: 'invite.created',
+      actorId: ctx.user.id,
+      target: { type: 'invite', id: invite.id },
+      metadata: { email: invite.email, isAdmin: invite.isAdmin },
+      meta: ctx.requestMeta,
+    })
+
+    return {
+      id: invite.id,
+      code: invite.code,
+      email: invite.email,
+      isAdmin: invite.isAdmin,
+      expiresAt: invite.expiresAt,
+    }
+  }),
+
+  /**
+   * Delete an unused invite (admin only)
+   */
+  revoke: adminProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input }) => {
+      const { count } = await prisma.invite.deleteMany({
+        where: { id: input.id, usedAt: null },
+      })
+
+      if (count === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Unused invite not found' })
+      }
+
+      return { success: true }
+    }),
+})
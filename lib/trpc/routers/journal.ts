@@ -0,0 +1,137 @@
+import { TRPCError } from '@trpc/server'
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  getJournalEntry,
+  listJournalEntries,
+  submitJournalEntry,
+  submitPrivateJournalEntry,
+  updateJournalEntry,
+} from '@/lib/journal'
+import {
+  createJournalSchema,
+  journalIdSchema,
+  listJournalSchema,
+  submitJournalSchema,
+  submitPrivateJournalSchema,
+  updateJournalSchema,
+} from '@/lib/schemas'
+import type { Context } from '../context'
+import { protectedProcedure, router } from '../init'
+
+function requireEncryptionKey(ctx: Context): string {
+  if (!ctx.encryptionKey) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Encryption key not found. Please log in again.',
+    })
+  }
+  return ctx.encryptionKey
+}
+
+/**
+ * Journal router
+ * Reads and writes the signed-in user's journal, encrypted with the data key from their session
+ */
+export const journalRouter = router({
+  /**
+   * List entries with bottle info, newest first, a page at a time
+   */
+  list: protectedProcedure.input(listJournalSchema).query(async ({ ctx, input }) => {
+    return listJournalEntries(ctx.user.id, requireEncryptionKey(ctx), input)
+  }),
+
+  /**
+   * Get one of my entries by ID
+   */
+  get: protectedProcedure.input(journalIdSchema).query(async ({ ctx, input }) => {
+    const entry = await getJournalEntry(ctx.user.id, requireEncryptionKey(ctx), input.id)
+
+    if (!entry) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Journal entry not found' })
+    }
+
+    return entry
+  }),
+
+  /**
+   * Save an entry without opening a bottle
+   */
+  create: protectedProcedure.input(createJournalSchema).mutation(async ({ ctx, input }) => {
+    return createJournalEntry(ctx.user.id, requireEncryptionKey(ctx), input)
+  }),
+
+  /**
+   * Edit an entry's text (linked bottle opens are kept)
+   */
+  update: protectedProcedure
+    .input(journalIdSchema.extend(updateJournalSchema.shape))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input
+      const result = await updateJournalEntry(
+        ctx.user.id,
+        requireEncryptionKey(ctx),
+        id,
+        data,
+        ctx.requestMeta,
+      )
+
+      if (!result.success) {
+        throw new TRPCError({ code: result.code, message: result.error })
+      }
+
+      return result.entry
+    }),
+
+  /**
+   * Delete an entry with its bottle open and photos
+   */
+  delete: protectedProcedure.input(journalIdSchema).mutation(async ({ ctx, input }) => {
+    const result = await deleteJournalEntry(ctx.user.id, input.id, ctx.requestMeta)
+
+    if (!result.success) {
+      throw new TRPCError({ code: result.code, message: result.error })
+    }
+
+    return { success: true }
+  }),
+
+  /**
+   * Save today's entry and open the bottle that fits it best
+   */
+  submit: protectedProcedure.input(submitJournalSchema).mutation(async ({ ctx, input }) => {
+    const result = await submitJournalEntry(
+      ctx.user,
+      requireEncryptionKey(ctx),
+      input,
+      ctx.requestMeta,
+    )
+
+    if (!result.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: result.error })
+    }
+
+    return { journalId: result.journalId, bottleId: result.bottleId, message: result.message }
+  }),
+
+  /**
+   * Save today's entry written in private mode (encrypted in the browser) and open the
+   * bottle that fits the mood shared with it
+   */
+  submitPrivate: protectedProcedure
+    .input(submitPrivateJournalSchema)
+    .mutation(async ({ ctx, input }) => {
+      const result = await submitPrivateJournalEntry(
+        ctx.user,
+        requireEncryptionKey(ctx),
+        input,
+        ctx.requestMeta,
+      )
+
+      if (!result.success) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: result.error })
+      }
+
+      return { journalId: result.journalId, bottleId: result.bottleId, message: result.message }
+    }),
+})
@@ -0,0 +1,208 @@
+import { TRPCError } from '@trpc/server'
+import { recordAuditEvent } from '@/lib/audit'
+import {
+  createAuthenticationOptions,
+  createRegistrationOptions,
+  enablePasskeyUnlock,
+  getRelyingParty,
+  listPasskeys,
+  registerPasskey,
+  removePasskey,
+  unlockDataKeyWithPasskey,
+  verifyPasskeyAssertion,
+} from '@/lib/passkeys'
+import { prisma } from '@/lib/prisma'
+import {
+  enablePasskeyUnlockSchema,
+  passkeyIdSchema,
+  passkeyLoginSchema,
+  registerPasskeySchema,
+} from '@/lib/schemas'
+import { describeUserAgent, startSession } from '@/lib/sessions'
+import { effectiveIsAdmin } from '@/lib/two-factor'
+import type { TRPCContext } from '../context'
+import { protectedProcedure, publicProcedure, router } from '../init'
+
+/**
+ * Relying party for this request, or a BAD_REQUEST when the origin is unknown
+ */
+function relyingParty(ctx: TRPCContext) {
+  const rp = getRelyingParty(ctx.requestMeta.origin)
+  if (!rp) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Missing request origin' })
+  }
+  return rp
+}
+
+/**
+ * Passkeys router
+ * Registers passkeys for the current user and signs in with them
+ */
+export const passkeysRouter = router({
+  /**
+   * List the current user's passkeys
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const passkeys = await listPasskeys(ctx.user.id)
+
+    return {
+      passkeys: passkeys.map((passkey) => ({
+        id: passkey.id,
+        name: passkey.name,
+        createdAt: passkey.createdAt,
+        lastUsedAt: passkey.lastUsedAt,
+        canUnlock: !!passkey.wrappedDataKey,
+      })),
+    }
+  }),
+
+  /**
+   * Start registering a passkey on this device
+   */
+  registrationOptions: protectedProcedure.mutation(async ({ ctx }) => {
+    return createRegistrationOptions(ctx.user, relyingParty(ctx))
+  }),
+
+  /**
+   * Finish registering a passkey
+   * The client follows up with unlockOptions/enableUnlock so it can sign in
+   */
+  register: protectedProcedure.input(registerPasskeySchema).mutation(async ({ ctx, input }) => {
+    const result = await registerPasskey(
+      ctx.user.id,
+      input.challengeId,
+      input.response,
+      input.name || describeUserAgent(ctx.requestMeta.userAgent),
+      relyingParty(ctx),
+    )
+
+    if (!result.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: result.error })
+    }
+
+    return { id: result.passkey.id }
+  }),
+
+  /**
+   * Start an assertion with one of the user's passkeys to read its PRF output
+   */
+  unlockOptions: protectedProcedure.input(passkeyIdSchema).mutation(async ({ ctx, input }) => {
+    const passkey = await prisma.passkey.findFirst({
+      where: { id: input.id, userId: ctx.user.id },
+    })
+
+    if (!passkey) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Passkey not found' })
+    }
+
+    return createAuthenticationOptions(relyingParty(ctx), ctx.user.id, passkey.credentialId)
+  }),
+
+  /**
+   * Wrap the journal data key from this session with the passkey's PRF output
+   */
+  enableUnlock: protectedProcedure
+    .input(enablePasskeyUnlockSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.encryptionKey) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Encryption key missing, log in with your password first',
+        })
+      }
+
+      const result = await verifyPasskeyAssertion(
+        input.challengeId,
+        input.response,
+        relyingParty(ctx),
+        ctx.user.id,
+      )
+
+      if (!result.success) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: result.error })
+      }
+
+      await enablePasskeyUnlock(result.passkey.id, input.prfOutput, ctx.encryptionKey)
+
+      return { success: true }
+    }),
+
+  /**
+   * Remove a passkey
+   */
+  remove: protectedProcedure.input(passkeyIdSchema).mutation(async ({ ctx, input }) => {
+    const removed = await removePasskey(ctx.user.id, input.id)
+
+    if (!removed) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Passkey not found' })
+    }
+
+    return { success: true }
+  }),
+
+  /**
+   * Start signing in with a passkey (no email needed, passkeys are discoverable)
+   */
+  loginOptions: publicProcedure.mutation(async ({ ctx }) => {
+    return createAuthenticationOptions(relyingParty(ctx), null)
+  }),
+
+  /**
+   * Sign in with a passkey
+   * Unwraps the journal data key with the PRF output and sets the same cookies as login
+   */
+  login: publicProcedure.input(passkeyLoginSchema).mutation(async ({ ctx, input }) => {
+    const result = await verifyPasskeyAssertion(
+      input.challengeId,
+      input.response,
+      relyingParty(ctx),
+      null,
+    )
+
+    if (!result.success) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: result.error })
+    }
+
+    const { passkey, userVerified } = result
+
+    const encryptionKey = unlockDataKeyWithPasskey(passkey, input.prfOutput)
+    if (!encryptionKey) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: "This passkey can't unlock your journal, log in with your password",
+      })
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: passkey.userId },
+    })
+
+    // A passkey with biometrics/PIN is already two factors; without it, 2FA users need the code
+    if (user.totpEnabledAt && !userVerified) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Your passkey did not verify you, log in with your password and code',
+      })
+    }
+
+    // Start a session and set HTTP-only cookies
+    await startSession(ctx.resHeaders, user, ctx.requestMeta, {
+      encryptionKey,
+      twoFactor: userVerified,
+    })
+
+    await recordAuditEvent({
+      action: 'auth.passkey_login',
+      actorId: user.id,
+      target: { type: 'passkey', id: passkey.id },
+      metadata: { userVerified },
+      meta: ctx.requestMeta,
+    })
+
+    return {
+      success: true,
+      email: user.email,
+      isAdmin: effectiveIsAdmin(user.isAdmin, userVerified),
+    }
+  }),
+})
@@ -0,0 +1,65 @@
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import {
+  clearAuthCookies,
+  describeUserAgent,
+  listActiveSessions,
+  revokeAllSessions,
+  revokeSession,
+} from '@/lib/sessions'
+import { protectedProcedure, router } from '../init'
+
+/**
+ * Sessions router
+ * Lists and revokes the current user's signed-in devices
+ */
+export const sessionsRouter = router({
+  /**
+   * List active sessions for the current user
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const sessions = await listActiveSessions(ctx.user.id)
+
+    return {
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        device: describeUserAgent(session.userAgent),
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session.id === ctx.user.sessionId,
+      })),
+    }
+  }),
+
+  /**
+   * Log out one device
+   * Clears cookies too when it's the current device
+   */
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const revoked = await revokeSession(ctx.user.id, input.id)
+
+      if (!revoked) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Session not found' })
+      }
+
+      const current = input.id === ctx.user.sessionId
+      if (current) {
+        clearAuthCookies(ctx.resHeaders)
+      }
+
+      return { success: true, current }
+    }),
+
+  /**
+   * Log out everywhere, including this device
+   */
+  revokeAll: protectedProcedure.mutation(async ({ ctx }) => {
+    await revokeAllSessions(ctx.user.id)
+    clearAuthCookies(ctx.resHeaders)
+
+    return { success: true }
+  }),
+})
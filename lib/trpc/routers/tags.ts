@@ -0,0 +1,72 @@
+import { TRPCError } from '@trpc/server'
+import {
+  deleteJournalTag,
+  listJournalTags,
+  mergeJournalTags,
+  renameJournalTag,
+} from '@/lib/journal-tags'
+import { journalTagIdSchema, mergeJournalTagsSchema, renameJournalTagSchema } from '@/lib/schemas'
+import { protectedProcedure, router } from '../init'
+
+/**
+ * Tags router
+ * Manages the signed-in user's journal tags; tags are added to entries through the journal router
+ */
+export const tagsRouter = router({
+  /**
+   * List my tags with how many entries use each, sorted by name
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    if (!ctx.encryptionKey) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Encryption key not found. Please log in again.',
+      })
+    }
+
+    return { tags: await listJournalTags(ctx.user.id, ctx.encryptionKey) }
+  }),
+
+  /**
+   * Rename a tag
+   */
+  rename: protectedProcedure.input(renameJournalTagSchema).mutation(async ({ ctx, input }) => {
+    if (!ctx.encryptionKey) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Encryption key not found. Please log in again.',
+      })
+    }
+
+    const result = await renameJournalTag(ctx.user.id, ctx.encryptionKey, input)
+    if (!result.success) {
+      throw new TRPCError({ code: result.code, message: result.error })
+    }
+
+    return { success: true }
+  }),
+
+  /**
+   * Merge one tag into another
+   */
+  merge: protectedProcedure.input(mergeJournalTagsSchema).mutation(async ({ ctx, input }) => {
+    const result = await mergeJournalTags(ctx.user.id, input)
+    if (!result.success) {
+      throw new TRPCError({ code: result.code, message: result.error })
+    }
+
+    return { success: true }
+  }),
+
+  /**
+   * Delete a tag (entries keep everything else)
+   */
+  delete: protectedProcedure.input(journalTagIdSchema).mutation(async ({ ctx, input }) => {
+    const result = await deleteJournalTag(ctx.user.id, input.id)
+    if (!result.success) {
+      throw new TRPCError({ code: result.code, message: result.error })
+    }
+
+    return { success: true }
+  }),
+})
@@ -0,0 +1,159 @@
+import { TRPCError } from '@trpc/server'
+import { recordAuditEvent } from '@/lib/audit'
+import { verifyPassword } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  beginTwoFactorSetupSchema,
+  disableTwoFactorSchema,
+  twoFactorCodeSchema,
+} from '@/lib/schemas'
+import { revokeAllSessions, setAuthCookies } from '@/lib/sessions'
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  createBackupCodes,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isAdminTwoFactorRequired,
+  verifySecondFactor,
+} from '@/lib/two-factor'
+import { protectedProcedure, router } from '../init'
+
+/**
+ * Two-factor router
+ * Enrollment, backup codes and turning TOTP off for the current user
+ */
+export const twoFactorRouter = router({
+  /**
+   * Whether 2FA is on, required for this account, and how many backup codes are left
+   */
+  status: protectedProcedure.query(async ({ ctx }) => {
+    return getTwoFactorStatus(ctx.user.id)
+  }),
+
+  /**
+   * Start setup: creates a pending secret to scan into an authenticator app
+   * Requires the password so an unattended session can't enroll its own device
+   */
+  beginSetup: protectedProcedure
+    .input(beginTwoFactorSetupSchema)
+    .mutation(async ({ input, ctx }) => {
+      const user = await prisma.user.findUnique({
+        where: { id: ctx.user.id },
+      })
+
+      if (!user || !(await verifyPassword(input.password, user.passwordHash))) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Password is incorrect' })
+      }
+
+      if (user.totpEnabledAt) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Two-factor authentication is already enabled',
+        })
+      }
+
+      return beginTwoFactorSetup(user)
+    }),
+
+  /**
+   * Finish setup with a code from the app
+   * Returns backup codes once, upgrades this session to a 2FA session and signs out the others
+   */
+  confirmSetup: protectedProcedure.input(twoFactorCodeSchema).mutation(async ({ input, ctx }) => {
+    const result = await confirmTwoFactorSetup(ctx.user.id, input.code)
+
+    if (!result.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: result.error })
+    }
+
+    // Sessions opened before 2FA never proved the second factor; keep only this one
+    await revokeAllSessions(ctx.user.id, ctx.user.sessionId)
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: ctx.user.id },
+    })
+
+    // This device just proved it has the second factor; reissue so admin access applies now
+    setAuthCookies(ctx.resHeaders, user, { sessionId: ctx.user.sessionId, twoFactor: true })
+
+    await recordAuditEvent({
+      action: 'auth.two_factor_enabled',
+      actorId: user.id,
+      meta: ctx.requestMeta,
+    })
+
+    return { backupCodes: result.backupCodes }
+  }),
+
+  /**
+   * Replace all backup codes with a fresh set
+   */
+  regenerateBackupCodes: protectedProcedure
+    .input(twoFactorCodeSchema)
+    .mutation(async ({ input, ctx }) => {
+      const user = await prisma.user.findUnique({
+        where: { id: ctx.user.id },
+      })
+
+      if (!user?.totpEnabledAt) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Two-factor authentication is not enabled',
+        })
+      }
+
+      if (!(await verifySecondFactor(user, input.code))) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid two-factor code' })
+      }
+
+      const backupCodes = await createBackupCodes(user.id)
+
+      return { backupCodes }
+    }),
+
+  /**
+   * Turn 2FA off
+   * Needs both the password and a current code; admins can't when it's required
+   */
+  disable: protectedProcedure.input(disableTwoFactorSchema).mutation(async ({ input, ctx }) => {
+    const user = await prisma.user.findUnique({
+      where: { id: ctx.user.id },
+    })
+
+    if (!user || !(await verifyPassword(input.password, user.passwordHash))) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Password is incorrect' })
+    }
+
+    if (!user.totpEnabledAt) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Two-factor authentication is not enabled',
+      })
+    }
+
+    if (user.isAdmin && isAdminTwoFactorRequired()) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Two-factor authentication is required for admin accounts',
+      })
+    }
+
+    if (!(await verifySecondFactor(user, input.code))) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid two-factor code' })
+    }
+
+    await disableTwoFactor(user.id)
+
+    // Reissue the token without the 2FA claim
+    setAuthCookies(ctx.resHeaders, user, { sessionId: ctx.user.sessionId, twoFactor: false })
+
+    await recordAuditEvent({
+      action: 'auth.two_factor_disabled',
+      actorId: user.id,
+      meta: ctx.requestMeta,
+    })
+
+    return { success: true }
+  }),
+})
@@ -1,5 +1,14 @@
-import { adminProcedure, router } from '../init'
+import { TRPCError } from '@trpc/server'
+import { adminProcedure, protectedProcedure, router } from '../init'
+import { recordAuditEvent } from '@/lib/audit'
+import { bumpTokenVersion } from '@/lib/auth-state'
 import { prisma } from '@/lib/prisma'
+import {
+  changePrivatePassphraseSchema,
+  setUserAdminSchema,
+  setupPrivateJournalSchema,
+  updateDaySettingsSchema,
+} from '@/lib/schemas'
 
 /**
  * Users router
@@ -23,4 +32,159 @@ export const usersRouter = router({
 
     return { users }
   }),
+
+  /**
+   * Grant or remove admin rights (admin only)
+   * Signs the user out everywhere so no token keeps the old role
+   */
+  setAdmin: adminProcedure.input(setUserAdminSchema).mutation(async ({ ctx, input }) => {
+    if (input.userId === ctx.user.id) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: "You can't change your own role" })
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: input.userId },
+      data: { isAdmin: input.isAdmin },
+    })
+
+    if (count === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' })
+    }
+
+    await bumpTokenVersion(input.userId)
+
+    await recordAuditEvent({
+      action: 'user.role_changed',
+      actorId: ctx.user.id,
+      target: { type: 'user', id: input.userId },
+      metadata: { isAdmin: input.isAdmin },
+      meta: ctx.requestMeta,
+    })
+
+    return { success: true }
+  }),
+
+  /**
+   * My time zone and day rollover hour, which decide when the daily bottle limit resets
+   */
+  daySettings: protectedProcedure.query(async ({ ctx }) => {
+    return prisma.user.findUniqueOrThrow({
+      where: { id: ctx.user.id },
+      select: { timeZone: true, dayRolloverHour: true },
+    })
+  }),
+
+  /**
+   * Change my time zone and day rollover hour
+   */
+  updateDaySettings: protectedProcedure
+    .input(updateDaySettingsSchema)
+    .mutation(async ({ ctx, input }) => {
+      await prisma.user.update({
+        where: { id: ctx.user.id },
+        data: { timeZone: input.timeZone, dayRolloverHour: input.dayRolloverHour },
+      })
+
+      return { success: true }
+    }),
+
+  /**
+   * My private mode key salt and check value (both null until set up)
+   * The browser derives the key from these and the passphrase, which is never sent
+   */
+  privateJournal: protectedProcedure.query(async ({ ctx }) => {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: ctx.user.id },
+      select: { privateKeySalt: true, privateKeyCheck: true },
+    })
+
+    return { salt: user.privateKeySalt, keyCheck: user.privateKeyCheck }
+  }),
+
+  /**
+   * Turn on private mode with a key made in the browser
+   * Only once: a new key couldn't read the entries written with the old one
+   */
+  setupPrivateJournal: protectedProcedure
+    .input(setupPrivateJournalSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await prisma.user.updateMany({
+        where: { id: ctx.user.id, privateKeySalt: null },
+        data: { privateKeySalt: input.salt, privateKeyCheck: input.keyCheck },
+      })
+
+      if (count === 0) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'Private mode is already set up' })
+      }
+
+      return { success: true }
+    }),
+
+  /**
+   * Private entries as the browser encrypted them, for re-encrypting under a new passphrase
+   */
+  privateJournalEntries: protectedProcedure.query(async ({ ctx }) => {
+    const entries = await prisma.journalEntry.findMany({
+      where: { userId: ctx.user.id, clientEncrypted: true },
+      select: { id: true, entry: true, prompt: true },
+      orderBy: { id: 'asc' },
+    })
+
+    return { entries }
+  }),
+
+  /**
+   * Change the private mode passphrase
+   * The browser sends every private entry re-encrypted with the new key; they are swapped in
+   * together with the new salt, or not at all
+   */
+  changePrivatePassphrase: protectedProcedure
+    .input(changePrivatePassphraseSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (new Set(input.entries.map((entry) => entry.id)).size !== input.entries.length) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Duplicate entries' })
+      }
+
+      const changedMeanwhile = new TRPCError({
+        code: 'CONFLICT',
+        message: 'Private entries changed while re-encrypting, try again',
+      })
+
+      await prisma.$transaction(
+        async (tx) => {
+          // Only from the key the browser decrypted with
+          const { count } = await tx.user.updateMany({
+            where: { id: ctx.user.id, privateKeySalt: input.currentSalt },
+            data: { privateKeySalt: input.salt, privateKeyCheck: input.keyCheck },
+          })
+
+          if (count === 0) {
+            throw changedMeanwhile
+          }
+
+          // An entry written in the meantime would be left under the old key
+          const stored = await tx.journalEntry.count({
+            where: { userId: ctx.user.id, clientEncrypted: true },
+          })
+
+          if (stored !== input.entries.length) {
+            throw changedMeanwhile
+          }
+
+          for (const entry of input.entries) {
+            const { count: updated } = await tx.journalEntry.updateMany({
+              where: { id: entry.id, userId: ctx.user.id, clientEncrypted: true },
+              data: { entry: entry.entry, prompt: entry.prompt },
+            })
+
+            if (updated === 0) {
+              throw changedMeanwhile
+            }
+          }
+        },
+        { timeout: 60_000 },
+      )
+
+      return { success: true }
+    }),
 })
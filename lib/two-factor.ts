@@ -0,0 +1,317 @@
+import crypto from 'node:crypto'
+import type { User } from '@prisma/client'
+import { prisma } from './prisma'
+
+/**
+ * TOTP two-factor authentication (RFC 6238)
+ * Codes are 6 digits from HMAC-SHA1 over 30 second time steps, compatible with
+ * Google Authenticator, 1Password, Aegis etc. Backup codes are single-use and
+ * stored hashed like recovery codes
+ */
+
+const TOTP_STEP_SECONDS = 30
+const TOTP_DIGITS = 6
+const TOTP_DRIFT_STEPS = 1 // Accept one step either side for clock drift
+const TOTP_ISSUER = 'lovisa-bottles'
+
+const BACKUP_CODE_COUNT = 10
+const BACKUP_CODE_LENGTH = 8
+// No 0/o, 1/i/l to keep codes easy to copy by hand
+const BACKUP_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export const TWO_FACTOR_REQUIRED_CODE = 'TWO_FACTOR_REQUIRED'
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char)
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+function currentStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS)
+}
+
+/**
+ * Computes the TOTP code for a secret at a given time step
+ */
+function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest()
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * Finds the time step a code is valid for, within the allowed drift
+ *
+ * @returns The matching step, or null if the code is wrong
+ */
+function matchTotpStep(secret: string, code: string): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null
+  }
+
+  const now = currentStep()
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const expected = totpCode(secret, now + drift)
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return now + drift
+    }
+  }
+
+  return null
+}
+
+/**
+ * Strips formatting so "ABCD-efgh" and "abcdefgh" are the same code
+ */
+function normalizeBackupCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function hashBackupCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeBackupCode(code)).digest('hex')
+}
+
+function generateBackupCode(): string {
+  let code = ''
+  for (let i = 0; i < BACKUP_CODE_LENGTH; i++) {
+    code += BACKUP_CODE_ALPHABET[crypto.randomInt(BACKUP_CODE_ALPHABET.length)]
+  }
+  // Group as xxxx-xxxx for readability
+  return code.match(/.{4}/g)!.join('-')
+}
+
+/**
+ * Whether admin accounts must have two-factor enabled to use admin features
+ * Set REQUIRE_ADMIN_2FA=true to enforce it
+ */
+export function isAdminTwoFactorRequired(): boolean {
+  return process.env.REQUIRE_ADMIN_2FA === 'true'
+}
+
+/**
+ * Admin rights actually granted to a token
+ * When admin 2FA is required, an admin who hasn't signed in with a second factor
+ * is treated as a regular user until they set it up
+ */
+export function effectiveIsAdmin(isAdmin: boolean, twoFactor: boolean | undefined): boolean {
+  return isAdmin && (!isAdminTwoFactorRequired() || !!twoFactor)
+}
+
+/**
+ * Starts two-factor setup by storing a new pending secret
+ * 2FA stays off until the user confirms a code from their authenticator app
+ *
+ * @returns The secret for manual entry and an otpauth:// URI for QR codes/app links
+ */
+export async function beginTwoFactorSetup(
+  user: Pick<User, 'id' | 'email'>,
+): Promise<{ secret: string; otpauthUri: string }> {
+  const secret = base32Encode(crypto.randomBytes(20))
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secret, totpEnabledAt: null, totpLastStep: null },
+  })
+
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  })
+
+  return { secret, otpauthUri: `otpauth://totp/${label}?${params}` }
+}
+
+/**
+ * Replaces a user's backup codes with a fresh set
+ *
+ * @returns The plaintext codes; they are not stored and can only be shown once
+ */
+export async function createBackupCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, generateBackupCode)
+
+  await prisma.$transaction([
+    prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorBackupCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashBackupCode(code) })),
+    }),
+  ])
+
+  return codes
+}
+
+/**
+ * Finishes setup by checking a code against the pending secret
+ *
+ * @returns Backup codes to show once, or an error
+ */
+export async function confirmTwoFactorSetup(
+  userId: number,
+  code: string,
+): Promise<{ success: true; backupCodes: string[] } | { success: false; error: string }> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  })
+
+  if (!user?.totpSecret) {
+    return { success: false, error: 'Two-factor setup has not been started' }
+  }
+
+  if (user.totpEnabledAt) {
+    return { success: false, error: 'Two-factor authentication is already enabled' }
+  }
+
+  const step = matchTotpStep(user.totpSecret, code)
+  if (step === null) {
+    return { success: false, error: 'Invalid code' }
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpEnabledAt: new Date(), totpLastStep: step },
+  })
+
+  const backupCodes = await createBackupCodes(userId)
+
+  return { success: true, backupCodes }
+}
+
+/**
+ * Checks a TOTP or backup code for a user with 2FA enabled
+ * A TOTP step can only be used once and a backup code is burned on use
+ */
+export async function verifySecondFactor(
+  user: Pick<User, 'id' | 'totpSecret' | 'totpLastStep'>,
+  code: string,
+): Promise<boolean> {
+  if (!user.totpSecret) {
+    return false
+  }
+
+  const step = matchTotpStep(user.totpSecret, code)
+
+  if (step !== null) {
+    // Only move forward; a concurrent login with the same code gets count 0
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+      },
+      data: { totpLastStep: step },
+    })
+    return count > 0
+  }
+
+  // Not a TOTP code, try it as a backup code
+  const { count } = await prisma.twoFactorBackupCode.updateMany({
+    where: { userId: user.id, codeHash: hashBackupCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  })
+
+  return count > 0
+}
+
+/**
+ * Second login step for a user whose password has already been verified
+ *
+ * @returns success when 2FA is off or the code is right; otherwise whether a code
+ * was missing (required) or wrong
+ */
+export async function verifyLoginSecondFactor(
+  user: Pick<User, 'id' | 'totpSecret' | 'totpEnabledAt' | 'totpLastStep'>,
+  code: string | undefined,
+): Promise<{ success: true } | { success: false; required: boolean; error: string }> {
+  if (!user.totpEnabledAt) {
+    return { success: true }
+  }
+
+  if (!code) {
+    return { success: false, required: true, error: 'Two-factor code required' }
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    return { success: false, required: false, error: 'Invalid two-factor code' }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Turns two-factor authentication off and deletes backup codes
+ */
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    }),
+    prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+  ])
+}
+
+/**
+ * Two-factor state for the settings page
+ */
+export async function getTwoFactorStatus(userId: number) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { isAdmin: true, totpEnabledAt: true },
+  })
+
+  const backupCodesRemaining = await prisma.twoFactorBackupCode.count({
+    where: { userId, usedAt: null },
+  })
+
+  return {
+    enabled: !!user?.totpEnabledAt,
+    required: !!user?.isAdmin && isAdminTwoFactorRequired(),
+    backupCodesRemaining,
+  }
+}
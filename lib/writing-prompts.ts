@@ -0,0 +1,178 @@
+import { type DaySettings, getDailyWindow, getDayNumber } from './daily-window'
+import { decryptTextServer } from './encryption-server-crypto'
+import { generateWritingPrompts } from './openai'
+import { prisma } from './prisma'
+
+/**
+ * Writing prompts for an empty journal page
+ * The AI suggests prompts from the time of year, the themes of recent entries and the
+ * writing streak. When it's unavailable, prompts are drawn from a local bank instead
+ */
+
+const PROMPT_COUNT = 3
+const RECENT_ENTRY_COUNT = 5
+const RECENT_ENTRY_LENGTH = 500 // Characters of each recent entry sent to the AI
+const STREAK_LOOKBACK_DAYS = 366
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type Season = 'winter' | 'spring' | 'summer' | 'autumn'
+
+const SEASONAL_PROMPTS: Record<Season, string[]> = {
+  winter: [
+    'What has kept you warm lately, inside or out?',
+    'Describe a cosy moment from this week in detail.',
+    'What are you quietly looking forward to when the light returns?',
+    'What would you like to leave behind with this year?',
+  ],
+  spring: [
+    'What feels like it is starting to grow in your life?',
+    'Describe the first sign of spring you noticed.',
+    'What would you like to try for the first time this season?',
+    'Which habit would you like to plant now and see bloom by summer?',
+  ],
+  summer: [
+    'What does a perfect summer evening look like for you?',
+    'Write about a place you would love to be right now.',
+    'What made you laugh out loud recently?',
+    'Which summer memory do you want to keep forever?',
+  ],
+  autumn: [
+    'What are you ready to let go of, like the trees do?',
+    'Describe the smell, sound or colour of this autumn.',
+    'What are you harvesting from the past few months?',
+    'What routine makes the darker evenings feel good?',
+  ],
+}
+
+const GENERAL_PROMPTS = [
+  'What is one small thing that went right today?',
+  'Who did you think about today, and why?',
+  'How does your body feel right now? Describe it honestly.',
+  'What would you tell yourself from one year ago?',
+  'What are you grateful for that you usually take for granted?',
+  'What is taking up most of your thoughts at the moment?',
+  'Describe today in three words, then explain one of them.',
+  'What is something you want to remember about this week?',
+  'What would make tomorrow a good day?',
+  'Write a short letter to someone you miss.',
+]
+
+/**
+ * Season of the user's date (midnight UTC on that date, see `suggestWritingPrompts`)
+ */
+function seasonOf(date: Date): Season {
+  const month = date.getUTCMonth()
+  if (month === 11 || month <= 1) return 'winter'
+  if (month <= 4) return 'spring'
+  if (month <= 7) return 'summer'
+  return 'autumn'
+}
+
+/**
+ * Days in a row with at least one entry, counting back from today
+ * (or from yesterday, so the streak isn't lost before today's entry is written)
+ * Days are the user's own, in their time zone and from their rollover hour
+ */
+async function getWritingStreak(userId: number, settings: DaySettings): Promise<number> {
+  const now = new Date()
+  const since = getDailyWindow(settings, now).start
+  since.setUTCDate(since.getUTCDate() - STREAK_LOOKBACK_DAYS)
+
+  const entries = await prisma.journalEntry.findMany({
+    where: { userId, date: { gte: since } },
+    select: { date: true },
+    orderBy: { date: 'desc' },
+  })
+
+  const days = new Set(entries.map((entry) => getDayNumber(settings, entry.date)))
+
+  let day = getDayNumber(settings, now)
+  if (!days.has(day)) {
+    day--
+  }
+
+  let streak = 0
+  while (days.has(day)) {
+    streak++
+    day--
+  }
+
+  return streak
+}
+
+/**
+ * Recent entries, decrypted and shortened, newest first (private entries are never sent to the AI)
+ */
+async function getRecentEntries(userId: number, encryptionKey: string): Promise<string[]> {
+  const entries = await prisma.journalEntry.findMany({
+    where: { userId, clientEncrypted: false },
+    select: { entry: true },
+    orderBy: { date: 'desc' },
+    take: RECENT_ENTRY_COUNT,
+  })
+
+  const texts: string[] = []
+  for (const entry of entries) {
+    try {
+      texts.push(decryptTextServer(entry.entry, encryptionKey).slice(0, RECENT_ENTRY_LENGTH))
+    } catch (error) {
+      console.error('Failed to decrypt journal entry:', error)
+    }
+  }
+
+  return texts
+}
+
+/**
+ * Random prompts from the local bank, one of them for the current season
+ */
+function fallbackWritingPrompts(date: Date): string[] {
+  const pick = (prompts: string[]) => prompts[Math.floor(Math.random() * prompts.length)]
+
+  const prompts = [pick(SEASONAL_PROMPTS[seasonOf(date)])]
+  while (prompts.length < PROMPT_COUNT) {
+    const prompt = pick(GENERAL_PROMPTS)
+    if (!prompts.includes(prompt)) {
+      prompts.push(prompt)
+    }
+  }
+
+  return prompts
+}
+
+/**
+ * Suggests prompts for today's entry
+ *
+ * @returns The prompts and whether they came from the AI or the local bank
+ */
+export async function suggestWritingPrompts(
+  userId: number,
+  encryptionKey: string,
+): Promise<{ prompts: string[]; source: 'ai' | 'fallback' }> {
+  const settings = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { timeZone: true, dayRolloverHour: true },
+  })
+
+  // The user's date, not the server's, so the season and month turn over with their streak
+  const today = new Date(getDayNumber(settings, new Date()) * DAY_MS)
+
+  try {
+    const [recentEntries, streak] = await Promise.all([
+      getRecentEntries(userId, encryptionKey),
+      getWritingStreak(userId, settings),
+    ])
+
+    const prompts = await generateWritingPrompts({
+      season: seasonOf(today),
+      month: today.toLocaleDateString('en-US', { month: 'long', timeZone: 'UTC' }),
+      recentEntries,
+      streak,
+    })
+
+    return { prompts, source: 'ai' }
+  } catch (error) {
+    console.error('Failed to generate writing prompts:', error)
+    return { prompts: fallbackWritingPrompts(today), source: 'fallback' }
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Minimal streaming ZIP writer
+ * Files are stored uncompressed (journal text is small and images are already compressed)
+ * and written with a trailing data descriptor, so each file can be streamed without knowing
+ * its size or checksum up front. No ZIP64, so archives must stay under 4 GB and 65535 files
+ */
+
+const MAX_ZIP_SIZE = 0xffffffff
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function updateCrc32(crc: number, data: Uint8Array): number {
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  }
+  return (c ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Date and time in MS-DOS format (2-second resolution, UTC)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980)
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  }
+}
+
+interface ZipRecord {
+  name: Uint8Array
+  crc: number
+  size: number
+  offset: number
+  time: number
+  date: number
+}
+
+const encoder = new TextEncoder()
+
+export interface ZipWriter {
+  /**
+   * Streams one file into the archive
+   *
+   * @param content - File contents, as a string or chunks
+   */
+  addFile(
+    name: string,
+    content: string | Uint8Array | AsyncIterable<Uint8Array>,
+    modified?: Date,
+  ): AsyncGenerator<Uint8Array>
+  /**
+   * Central directory that closes the archive, call once after the last file
+   */
+  finish(): Uint8Array
+}
+
+export function createZipWriter(): ZipWriter {
+  const records: ZipRecord[] = []
+  let offset = 0
+
+  function track(bytes: Uint8Array): Uint8Array {
+    offset += bytes.length
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error('Archive exceeds the 4 GB ZIP limit')
+    }
+    return bytes
+  }
+
+  async function* addFile(
+    name: string,
+    content: string | Uint8Array | AsyncIterable<Uint8Array>,
+    modified = new Date(),
+  ): AsyncGenerator<Uint8Array> {
+    const record: ZipRecord = {
+      name: encoder.encode(name),
+      crc: 0,
+      size: 0,
+      offset,
+      ...toDosDateTime(modified),
+    }
+
+    // Local file header; sizes and CRC follow in the data descriptor
+    const header = new Uint8Array(30 + record.name.length)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, 0x04034b50, true)
+    view.setUint16(4, 20, true) // Version needed
+    view.setUint16(6, 0x0808, true) // Data descriptor + UTF-8 names
+    view.setUint16(8, 0, true) // Stored
+    view.setUint16(10, record.time, true)
+    view.setUint16(12, record.date, true)
+    view.setUint16(26, record.name.length, true)
+    header.set(record.name, 30)
+    yield track(header)
+
+    const chunks =
+      typeof content === 'string'
+        ? [encoder.encode(content)]
+        : content instanceof Uint8Array
+          ? [content]
+          : content
+
+    for await (const chunk of chunks) {
+      record.crc = updateCrc32(record.crc, chunk)
+      record.size += chunk.length
+      yield track(chunk)
+    }
+
+    const descriptor = new Uint8Array(16)
+    const descriptorView = new DataView(descriptor.buffer)
+    descriptorView.setUint32(0, 0x08074b50, true)
+    descriptorView.setUint32(4, record.crc, true)
+    descriptorView.setUint32(8, record.size, true) // Compressed size
+    descriptorView.setUint32(12, record.size, true) // Uncompressed size
+    yield track(descriptor)
+
+    records.push(record)
+  }
+
+  function finish(): Uint8Array {
+    if (records.length > 0xffff) {
+      throw new Error('Archive exceeds the 65535 file ZIP limit')
+    }
+
+    const directorySize = records.reduce((sum, record) => sum + 46 + record.name.length, 0)
+    const output = new Uint8Array(directorySize + 22)
+    const view = new DataView(output.buffer)
+    let position = 0
+
+    for (const record of records) {
+      view.setUint32(position, 0x02014b50, true)
+      view.setUint16(position + 4, 20, true) // Version made by
+      view.setUint16(position + 6, 20, true) // Version needed
+      view.setUint16(position + 8, 0x0808, true)
+      view.setUint16(position + 10, 0, true)
+      view.setUint16(position + 12, record.time, true)
+      view.setUint16(position + 14, record.date, true)
+      view.setUint32(position + 16, record.crc, true)
+      view.setUint32(position + 20, record.size, true)
+      view.setUint32(position + 24, record.size, true)
+      view.setUint16(position + 28, record.name.length, true)
+      view.setUint32(position + 42, record.offset, true)
+      output.set(record.name, position + 46)
+      position += 46 + record.name.length
+    }
+
+    // End of central directory
+    view.setUint32(position, 0x06054b50, true)
+    view.setUint16(position + 8, records.length, true)
+    view.setUint16(position + 10, records.length, true)
+    view.setUint32(position + 12, directorySize, true)
+    view.setUint32(position + 16, offset, true)
+
+    return track(output)
+  }
+
+  return { addFile, finish }
+}